@@ -1,14 +1,45 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Play, Square, Activity, Terminal, Zap, Trash2, Sliders, Bot, X, Wand2, Shuffle, Send, Loader2, MessageSquare } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, SetStateAction } from 'react';
+import { Play, Square, Activity, Terminal, Trash2, SlidersVertical, Bot, X, Wand2, Shuffle, Send, Loader2, MessageSquare, Download, Circle, Disc, FileAudio, Music, FolderOpen, History, Link, GitFork, Settings, Eye, Piano } from 'lucide-react';
 import * as Tone from 'tone';
-import { GoogleGenAI, Type, FunctionDeclaration, Chat, GenerateContentResponse } from "@google/genai";
 import { audioService } from './services/audioEngine';
-import { LogEntry } from './types';
+import { encodeWav, WavBitDepth } from './services/wav';
+import { sampleLibrary } from './services/sampleLibrary';
+import { presetLibrary } from './services/presetLibrary';
+import { kernelLog } from './services/kernelLog';
+import { LogEntry, LoopInfo, Take, SampleInfo, SourceLocation, Project, Snapshot, ChangeProposal, ReviewDecision, ChatMessage, TransportSettings, InstrumentPreset, ControlInfo, VisMode } from './types';
+import { formatLocation } from './services/diagnostics';
+import { projectStore, createProject, activeContent, fileMap, withFile, fileNameFrom } from './services/projectStore';
+import { evaluationHistory } from './services/evaluationHistory';
+import { conversationStore } from './services/conversationStore';
+import { DEFAULT_TRANSPORT, MIN_BPM, MAX_BPM, clampBpm } from './services/transport';
+import { SharedSketch, shareUrl, readSharedSketch, clearSharedSketch } from './services/shareLink';
+import { ChatSession, ProviderSettings, ProviderConfigError } from './services/llmProvider';
+import { loadAgentSettings, saveAgentSettings, loadReviewMode, saveReviewMode, createProvider } from './services/agentSettings';
+import { runAgentLoop, ToolHandler } from './services/agentLoop';
+import { AGENT_TOOLS } from './services/agentTools';
+import { applyPatch } from './services/codePatch';
+import LoopPanel from './components/LoopPanel';
+import ControlPanel from './components/ControlPanel';
+import LogPanel from './components/LogPanel';
+import { VISUALIZERS, VisualSources, startVisualizer, nextVisMode } from './services/visualizer';
+import MixerPanel from './components/MixerPanel';
+import TakesPanel from './components/TakesPanel';
+import SamplePanel from './components/SamplePanel';
+import PresetPanel from './components/PresetPanel';
+import CodeEditor, { CodeEditorHandle } from './components/CodeEditor';
+import FileTabs from './components/FileTabs';
+import TransportBar from './components/TransportBar';
+import ProjectPanel from './components/ProjectPanel';
+import HistoryPanel from './components/HistoryPanel';
+import AgentSettingsPanel from './components/AgentSettingsPanel';
+import ReviewPanel from './components/ReviewPanel';
+import ToolStep from './components/ToolStep';
 
 // Updated code preset with new instruments
 const DEFAULT_CODE = `// :: SONIC SHELL ::
 // Live Coding Environment
 // Shortcuts: Ctrl+Enter (Run), Ctrl+. (Stop)
+// Re-running while playing hot-swaps loops on the next bar
 
 // 1. Kick (4/4)
 loop("kick", "4n", (time) => {
@@ -32,75 +63,324 @@ loop("bass", "8n", (time) => {
 
 // 4. Ethereal Chords
 loop("pads", "1m", (time) => {
-   // Randomly choose a chord
-   const chords = [
-     ["C3", "Eb3", "G3", "Bb3"],
-     ["F3", "Ab3", "C4", "Eb4"]
-   ];
+   // Randomly choose a chord from the project key (C minor: Cm7, Fm7)
+   const chords = progression("i7 iv7");
    const c = chords[Math.floor(Math.random() * chords.length)];
    poly.triggerAttackRelease(c, "1m", time);
 });
 `;
 
-interface ChatMessage {
-  role: 'user' | 'model' | 'system';
-  text: string;
-}
+const AGENT_INSTRUCTION = `
+  You are GHOST_IN_SHELL, an advanced audio live-coding agent.
+  Your job is to write Tone.js code to make music based on user requests.
+  
+  AVAILABLE INSTRUMENTS:
+  - kick (MembraneSynth)
+  - snare (NoiseSynth)
+  - hat (MetalSynth)
+  - synth (MonoSynth)
+  - poly (PolySynth)
+  More voices: instrument(name, type, options?) with type synth | mono | am | fm | duo | membrane | metal | noise | pluck | poly returns a voice on its own mixer channel, e.g. const lead = instrument("lead", "fm", { harmonicity: 3 }). Declare it at top level, never inside a loop callback. options may be a saved preset name instead.
+  
+  HELPER: loop(name, interval, callback)
+  PATTERNS: pattern(name, "c2 ~ eb2 [g2 c3]*2 <bb2 f2>", instrument, { cycle: "1m" }). Mini-notation: ~ rest, [a b] subdivide, [a, b] together, <a b> alternate per cycle, {a b c, d e} polymeter, a*2 repeat, x(3,8) euclid. Use "x" for drum hits.
+  MIXING: mute(...names), solo(...names), unmute() to clear all, kill(name)
+  FX: send(instrument, "reverb" | "delay" | "distortion" | "filter", 0..1). Tweak units via fx.reverb, fx.delay, etc. Never build your own effect chains.
+  SAMPLES: sample(name) returns a Tone.Player on mixer channel "sample.<name>", sampler({ C2: name, ... }, { name? }) returns a Tone.Sampler. Only use sample names the user has loaded.
+  TRANSPORT: rampBpm(bpm, duration, time?) glides the tempo (60-200), e.g. rampBpm(140, "8m"). "1m" follows the user's time signature, and swing is applied by the transport: write straight rhythms.
+  THEORY: key is the project key set by the user (e.g. "C minor"). scale(tonic?, mode?), chord("Fm7", { inversion, voicing: "close" | "open" | "drop2" | "drop3", octave }), progression("i iv V7", key?) and quantize(note, key?) return note names and default to that key; euclid(3, 8) returns booleans. Prefer them over hand-written note arrays, and stay in key unless asked otherwise.
+  CONTROLS: knob(name, { min, max, default, step?, curve?: "exp" }), toggle(name, { default }) and xy(name, { x: [min, max], y: [min, max] }) put live controls in front of the user. Read .value inside loop callbacks, or .map(param) / .map(object, "property") to drive a Tone.Param, e.g. knob("cutoff", { min: 100, max: 4000, default: 800, curve: "exp" }).map(synth.filterEnvelope, "baseFrequency"). Offer one when the user will want to tweak a value by hand; controls keep their value across re-runs.
+  MIXER: mixer.volume(name, db, rampTime?), mixer.pan(name, -1..1, rampTime?), mixer.mute(name, on?), mixer.solo(name, on?); FX returns (fx.reverb, ...) stay audible under solo and cannot be soloed
+  DEBUGGING: print(...values) writes to the user's KERNEL_LOG tagged with the loop it ran in; log.debug/info/warn/error(...) do the same at a level. Use them (sparingly inside fast loops) to check values, then read them back with get_recent_logs.
+  BUFFERS: the project can have several buffers. Code you run replaces the active buffer and may import helpers from the others, e.g. import { bass } from './lines.js'.
+  
+  TOOLS: get_current_code, get_recent_logs and list_active_loops show what the user has and hears. apply_patch changes part of the active buffer; run_generated_code replaces all of it. set_bpm and stop_audio control the transport.
+  
+  RULES:
+  1. ALWAYS call 'apply_patch' or 'run_generated_code' when you write code. Do not just show it.
+  2. If a tool returns an ERROR, you MUST analyze the error, fix the code, and call the tool again.
+  3. Repeat this until the code runs successfully.
+  4. Keep code efficient. Avoid mixing string/number types in calculations (e.g. time + "8n" is invalid).
+  5. Use 'time' argument in callbacks for precise scheduling.
+  6. Code runs in a sandbox: no window, document, storage, fetch, timers or Function constructor, and typeof on an undeclared name throws. Use loop() for anything repeating, and keep callbacks fast (loops that keep failing get disabled).
+  7. When the user asks to change what is playing ("make the hats busier"), read the code with get_current_code first and use apply_patch so the rest of their sketch stays as it is.
+  8. The user may review your code before it runs. A result starting with "Rejected by the user" means nothing changed: take their reason into account before proposing again. If they edited your code, build on their version.
+`;
+
+// First message of every new conversation
+const AGENT_WELCOME: ChatMessage = { role: 'model', text: 'GHOST_IN_SHELL Online. I can write and compile audio code. What do you need?' };
+
+const NO_MARKERS: Record<number, string> = {};
+
+// Buffer name a shared sketch runs under while previewed
+const SHARED_FILE = 'shared.js';
+
+// Agent tools that change code refuse while a shared sketch is previewed
+const SHARED_SKETCH_ERROR = "Error: a shared sketch is open read-only. Ask the user to FORK it first.";
+
+// Quiet time after an edit before the project is written to IndexedDB
+const AUTOSAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
-  const [code, setCode] = useState<string>(DEFAULT_CODE);
+  // Project State: buffers live in the project, the editor shows the active one
+  const [project, setProject] = useState<Project>(() => createProject('Untitled set', DEFAULT_CODE));
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isProjectsOpen, setIsProjectsOpen] = useState<boolean>(false);
+  const [isProjectLoaded, setIsProjectLoaded] = useState<boolean>(false);
+  // A sketch opened from a share link, shown read-only until forked
+  const [sharedSketch, setSharedSketch] = useState<SharedSketch | null>(null);
+  const code = sharedSketch ? sharedSketch.code : activeContent(project);
+  const setCode = (content: string) => setProject(prev => withFile(prev, prev.activeFile, content));
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [bpm, setBpm] = useState<number>(120);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  // Meter and swing, saved with the project like the tempo
+  const [transport, setTransport] = useState<TransportSettings>(DEFAULT_TRANSPORT);
+  const [logs, setLogs] = useState<LogEntry[]>(() => kernelLog.list());
+  const [logCapacity, setLogCapacity] = useState<number>(kernelLog.capacity);
+  const [loops, setLoops] = useState<LoopInfo[]>([]);
+  const [controls, setControls] = useState<ControlInfo[]>([]);
+
+  // Error messages by buffer and line, shown in the gutter until the next run
+  const [errorMarkers, setErrorMarkers] = useState<Record<string, Record<number, string>>>({});
   
   // Visualizer State
-  const [visMode, setVisMode] = useState<'waveform' | 'fft'>('waveform');
+  const [visMode, setVisMode] = useState<VisMode>('waveform');
   
+  // Bounce State
+  const [bounceBars, setBounceBars] = useState<number>(8);
+  const [bounceBitDepth, setBounceBitDepth] = useState<WavBitDepth>(16);
+  const [isBouncing, setIsBouncing] = useState<boolean>(false);
+
+  // Recording State
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recordElapsed, setRecordElapsed] = useState<number>(0);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [isTakesOpen, setIsTakesOpen] = useState<boolean>(false);
+
+  // MIDI Capture State
+  const [isCapturingMidi, setIsCapturingMidi] = useState<boolean>(false);
+
+  // Sample Library State
+  const [samples, setSamples] = useState<SampleInfo[]>([]);
+  const [isSamplesOpen, setIsSamplesOpen] = useState<boolean>(false);
+  const [presets, setPresets] = useState<InstrumentPreset[]>([]);
+  const [isPresetsOpen, setIsPresetsOpen] = useState<boolean>(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+
+  // History State
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+
+  // Mixer State
+  const [isMixerOpen, setIsMixerOpen] = useState<boolean>(false);
+
   // AI Agent State
   const [isAgentOpen, setIsAgentOpen] = useState<boolean>(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: 'GHOST_IN_SHELL Online. I can write and compile audio code. What do you need?' }
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>([AGENT_WELCOME]);
   const [input, setInput] = useState<string>("");
   const [isAgentProcessing, setIsAgentProcessing] = useState<boolean>(false);
+  const [agentSettings, setAgentSettings] = useState<ProviderSettings>(loadAgentSettings);
+  const [isAgentSettingsOpen, setIsAgentSettingsOpen] = useState<boolean>(false);
+  // Review mode: agent code waits for approval before it reaches the speakers
+  const [reviewMode, setReviewMode] = useState<boolean>(loadReviewMode);
+  const [proposal, setProposal] = useState<ChangeProposal | null>(null);
   
   // Refs
-  const logsEndRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const lineNumbersRef = useRef<HTMLDivElement>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const editorRef = useRef<CodeEditorHandle>(null);
   
-  // Initialize AI Chat Session Ref
-  const chatSessionRef = useRef<Chat | null>(null);
+  // Conversation with the configured provider, created on first message
+  const chatSessionRef = useRef<ChatSession | null>(null);
+
+  // Agent tools run across several renders within one message, so they read
+  // the latest state through refs instead of the submit's closure
+  const projectRef = useRef<Project>(project);
+  projectRef.current = project;
+  const reviewModeRef = useRef<boolean>(reviewMode);
+  reviewModeRef.current = reviewMode;
+  const sharedSketchRef = useRef<SharedSketch | null>(sharedSketch);
+  sharedSketchRef.current = sharedSketch;
+  // Latest handleRun, for the window shortcut and agent turns, which would
+  // otherwise run with the code, BPM and transport of an older render
+  const handleRunRef = useRef<typeof handleRun | null>(null);
+  // Resolves the agent's pending proposal with the user's decision
+  const reviewResolveRef = useRef<((decision: ReviewDecision) => void) | null>(null);
+  // Cancels the agent turn in flight
+  const agentAbortRef = useRef<AbortController | null>(null);
+  // Project the turn in flight was asked in; its messages belong there only
+  const agentTurnProjectRef = useRef<string | null>(null);
+  // Project whose conversation `messages` holds; null while it loads
+  const conversationIdRef = useRef<string | null>(null);
+  // Last tempo the engine reported, so it is not sent back to the engine
+  const engineBpmRef = useRef<number | null>(null);
 
   // Initialize Logs
   useEffect(() => {
     addLog("System initialized. Shell ready.", "system");
     addLog("GHOST_IN_SHELL (AI) module loaded.", "info");
-    initializeAgent();
   }, []);
 
-  // Auto-scroll logs & messages
-  useEffect(() => {
-    logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [logs]);
+  // Mirror the kernel log
+  useEffect(() => kernelLog.subscribe(() => {
+    setLogs(kernelLog.list());
+    setLogCapacity(kernelLog.capacity);
+  }), []);
 
+  // Auto-scroll messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages, isAgentOpen]);
 
-  // Update BPM in real-time
+  // Mirror the engine's loop registry
+  useEffect(() => {
+    return audioService.loops.subscribe(() => setLoops(audioService.loops.list()));
+  }, []);
+
+  // Mirror the knobs, toggles and pads the sketch declared
   useEffect(() => {
-    audioService.setBpm(bpm);
+    return audioService.controls.subscribe(() => setControls(audioService.controls.list()));
+  }, []);
+
+  // Mirror the sample library and reload what was saved last session
+  useEffect(() => {
+    const unsubscribe = sampleLibrary.subscribe(() => setSamples(sampleLibrary.list()));
+    sampleLibrary.load()
+      .then((count) => {
+        if (count > 0) addLog(`Sample library: ${count} sample(s) restored.`, "info");
+      })
+      .catch((err) => addLog(`Sample library unavailable: ${err.message}`, "error"));
+    return unsubscribe;
+  }, []);
+
+  // Mirror the preset library; default presets reach the engine through it
+  useEffect(() => {
+    const unsubscribe = presetLibrary.subscribe(() => setPresets(presetLibrary.list()));
+    presetLibrary.load()
+      .then((count) => {
+        if (count > 0) addLog(`Preset library: ${count} preset(s) restored.`, "info");
+      })
+      .catch((err) => addLog(`Preset library unavailable: ${err.message}`, "error"));
+    return unsubscribe;
+  }, []);
+
+  // Mirror the saved projects and reopen the last one
+  useEffect(() => {
+    const unsubscribe = projectStore.subscribe(() => setProjects(projectStore.list()));
+    projectStore.load()
+      .then((saved) => {
+        if (saved.length > 0) {
+          openProject(saved[0]);
+          addLog(`Project restored: ${saved[0].name}`, "info");
+        }
+      })
+      .catch((err) => addLog(`Project storage unavailable: ${err.message}`, "error"))
+      .finally(() => {
+        setIsProjectLoaded(true);
+        // A share link takes over the editor once the workspace is in place
+        readSharedSketch(window.location.hash)
+          .then((shared) => {
+            if (!shared) return;
+            setSharedSketch(shared);
+            setBpm(shared.bpm);
+            setTransport(shared.transport);
+            setVisMode(shared.visMode);
+            addLog("Shared sketch opened read-only. EXECUTE_ to hear it, FORK to keep it.", "system");
+          })
+          .catch((err) => {
+            addLog(`Could not open shared sketch: ${err.message}`, "error");
+            clearSharedSketch();
+          });
+      });
+    return unsubscribe;
+  }, []);
+
+  // Save the project shortly after every change. A shared preview's BPM and
+  // visualizer mode are not the project's, so nothing is saved meanwhile.
+  useEffect(() => {
+    if (!isProjectLoaded || sharedSketch) return;
+    const id = window.setTimeout(() => {
+      projectStore.save({ ...project, bpm, transport, visMode })
+        .catch((err) => addLog(`Autosave failed: ${err.message}`, "error"));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(id);
+  }, [project, bpm, transport, visMode, isProjectLoaded, sharedSketch]);
+
+  // Each project keeps its own GHOST_TERMINAL conversation. Switching
+  // projects ends the turn in flight, rejecting any change waiting for
+  // review so it can't land in the new project, and starts a fresh session.
+  useEffect(() => {
+    if (!isProjectLoaded) return;
+    let cancelled = false;
+    handleAgentCancel();
+    chatSessionRef.current = null;
+    conversationIdRef.current = null;
+    conversationStore.load(project.id)
+      .then((saved) => {
+        if (cancelled) return;
+        setMessages(saved ?? [AGENT_WELCOME]);
+        conversationIdRef.current = project.id;
+      })
+      .catch((err) => addLog(`Could not load conversation: ${err.message}`, "error"));
+    return () => { cancelled = true; };
+  }, [project.id, isProjectLoaded]);
+
+  useEffect(() => {
+    const projectId = conversationIdRef.current;
+    if (!projectId || projectId !== project.id) return;
+    const id = window.setTimeout(() => {
+      conversationStore.save(projectId, messages)
+        .catch((err) => addLog(`Saving conversation failed: ${err.message}`, "error"));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(id);
+  }, [messages]);
+
+  // Mirror the evaluation history
+  useEffect(() => {
+    return evaluationHistory.subscribe(() => setSnapshots(evaluationHistory.list()));
+  }, []);
+
+  // Mirror the recorded takes
+  useEffect(() => {
+    return audioService.recorder.subscribe(() => setTakes(audioService.recorder.list()));
+  }, []);
+
+  // Tick the record timer
+  useEffect(() => {
+    if (!isRecording) return;
+    const started = performance.now();
+    setRecordElapsed(0);
+    const id = window.setInterval(() => setRecordElapsed((performance.now() - started) / 1000), 250);
+    return () => window.clearInterval(id);
+  }, [isRecording]);
+
+  // Update BPM in real-time. Tempo ramps report back through the
+  // subscription below; echoing those to the engine would cancel the ramp.
+  useEffect(() => {
+    if (bpm !== engineBpmRef.current) audioService.setBpm(bpm);
   }, [bpm]);
 
+  // Follow the tempo the engine is actually running at (rampBpm)
+  useEffect(() => {
+    return audioService.transport.subscribe(() => {
+      const reported = Math.round(audioService.transport.bpm);
+      engineBpmRef.current = reported;
+      setBpm(reported);
+    });
+  }, []);
+
+  useEffect(() => {
+    audioService.transport.apply(transport);
+  }, [transport]);
+
   // Keyboard Shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // The editor handles its own bindings
+      if (e.defaultPrevented) return;
       if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
         e.preventDefault();
-        handleRun();
+        handleRunRef.current?.();
       }
       if ((e.ctrlKey || e.metaKey) && (e.key === '.' || e.key === 'Backspace')) {
         e.preventDefault();
@@ -109,109 +389,108 @@ const App: React.FC = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [code]); 
+  }, []);
 
-  // Update Analyser Type
+  // Visualizer Loop: the drawing lives in services/visualizer, this feeds it
   useEffect(() => {
-    audioService.setAnalyserType(visMode);
+    if (!canvasRef.current) return;
+    const empty = new Float32Array(0);
+    const sources: VisualSources = {
+      waveform: () => audioService.taps?.waveform() ?? empty,
+      spectrum: () => audioService.taps?.spectrum() ?? empty,
+      stereo: () => audioService.taps?.stereo() ?? [empty, empty],
+      channels: () => audioService.mixer?.snapshot() ?? [],
+      loops: () => audioService.loops.list(),
+      fires: (name) => audioService.activity.recent(name),
+      now: () => Tone.immediate(),
+      ticks: () => Tone.Transport.ticks,
+      ppq: () => Tone.Transport.PPQ,
+      timeSignature: () => audioService.transport.current.timeSignature,
+    };
+    return startVisualizer(canvasRef.current, VISUALIZERS[visMode], sources);
   }, [visMode]);
 
-  // Visualizer Loop
-  useEffect(() => {
-    let animationId: number;
-    
-    const render = () => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      const dpr = window.devicePixelRatio || 1;
-      const rect = canvas.getBoundingClientRect();
-      if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
-        canvas.width = rect.width * dpr;
-        canvas.height = rect.height * dpr;
-        ctx.scale(dpr, dpr);
-      }
-
-      const width = rect.width;
-      const height = rect.height;
+  // The kernel log folds repeats (e.g. a loop failing every tick) and
+  // rate-limits each source
+  const addLog = useCallback((message: string, type: LogEntry['type'], location?: SourceLocation, source?: string) => {
+    kernelLog.add(message, type, location, source);
+    if (type === 'error' && location?.file) {
+      const file = location.file;
+      setErrorMarkers(prev => ({ ...prev, [file]: { ...prev[file], [location.line]: message } }));
+    }
+  }, []);
 
-      ctx.fillStyle = 'rgba(5, 5, 5, 0.2)'; 
-      ctx.fillRect(0, 0, width, height);
+  // Put the caret on a reported error and scroll it into view, switching
+  // buffers first when the error is in another one
+  const jumpToLocation = (location: SourceLocation) => {
+    if (location.file && location.file !== project.activeFile && project.files.some(f => f.name === location.file)) {
+      setProject(prev => ({ ...prev, activeFile: location.file! }));
+      setTimeout(() => editorRef.current?.revealLocation(location), 0);
+    } else {
+      editorRef.current?.revealLocation(location);
+    }
+  };
 
-      let values: Float32Array | number[] = new Float32Array(0);
-      if (audioService.analyser) {
-        const rawValues = audioService.analyser.getValue();
-        if (rawValues instanceof Float32Array) {
-          values = rawValues;
-        } else if (Array.isArray(rawValues)) {
-          values = rawValues[0];
-        }
-      }
+  const handleShare = async () => {
+    try {
+      const url = await shareUrl({ code, bpm, transport, visMode });
+      await navigator.clipboard.writeText(url);
+      addLog(`>> SHARE LINK COPIED (${url.length} chars)`, "success");
+    } catch (err: any) {
+      addLog(`>> SHARE FAILED: ${err.message}`, "error");
+    }
+  };
 
-      if (values.length > 0) {
-        ctx.fillStyle = '#4ade80';
-        ctx.strokeStyle = '#4ade80';
-        ctx.shadowBlur = 4;
-        ctx.shadowColor = '#4ade80';
-
-        if (visMode === 'waveform') {
-          ctx.lineWidth = 2;
-          ctx.beginPath();
-          const sliceWidth = width / values.length;
-          let x = 0;
-          for (let i = 0; i < values.length; i++) {
-            const v = values[i] as number; 
-            const y = (1 + v) * (height / 2);
-            if (i === 0) ctx.moveTo(x, y);
-            else ctx.lineTo(x, y);
-            x += sliceWidth;
-          }
-          ctx.stroke();
-        } else {
-          const barWidth = (width / values.length) * 2.5;
-          let x = 0;
-          for (let i = 0; i < values.length; i++) {
-            const v = values[i] as number; 
-            const normalized = (v + 140) / 140; 
-            const barHeight = Math.max(0, normalized * height);
-            ctx.fillRect(x, height - barHeight, barWidth, barHeight);
-            x += barWidth + 1;
-            if (x > width) break;
-          }
-        }
-      } else {
-         ctx.beginPath();
-         ctx.strokeStyle = '#14532d';
-         ctx.lineWidth = 1;
-         ctx.shadowBlur = 0;
-         ctx.moveTo(0, height / 2);
-         ctx.lineTo(width, height / 2);
-         ctx.stroke();
-      }
-      animationId = requestAnimationFrame(render);
-    };
+  // Keep a shared sketch as a project of one's own
+  const handleForkShared = async () => {
+    if (!sharedSketch) return;
+    // A failed save keeps the preview open, so nothing is lost
+    let fork: Project;
+    try {
+      fork = await projectStore.save({ ...createProject('Forked sketch', sharedSketch.code), bpm, transport, visMode });
+    } catch (err: any) {
+      addLog(`>> FORK FAILED: ${err.message}`, "error");
+      return;
+    }
+    setSharedSketch(null);
+    clearSharedSketch();
+    openProject(fork);
+    addLog(`>> FORKED: ${fork.name}`, "success");
+  };
 
-    render();
-    return () => cancelAnimationFrame(animationId);
-  }, [visMode]);
+  // Leave the preview and go back to the open project
+  const handleDiscardShared = () => {
+    const saved = projectStore.get(project.id) ?? project;
+    setSharedSketch(null);
+    clearSharedSketch();
+    setBpm(saved.bpm);
+    setTransport(saved.transport);
+    setVisMode(saved.visMode);
+    addLog("Shared sketch closed.", "system");
+  };
 
-  const addLog = useCallback((message: string, type: LogEntry['type']) => {
-    const newLog: LogEntry = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second:'2-digit' }),
-      message,
-      type
-    };
-    setLogs(prev => [...prev.slice(-49), newLog]);
-  }, []);
+  // What the sandbox needs to resolve imports from a buffer. Code about to be
+  // run may not have reached project state yet, so it is passed in.
+  const sketchSources = (file: string = project.activeFile, content?: string) => ({
+    file,
+    files: content === undefined ? fileMap(project) : { ...fileMap(project), [file]: content },
+  });
 
-  const handleRun = async (codeToRun?: string) => {
+  const handleRun = async (codeToRun?: string, source: Snapshot['source'] = 'human', file: string = sharedSketch ? SHARED_FILE : project.activeFile) => {
     const targetCode = codeToRun || code;
+    setErrorMarkers({});
     addLog("Compiling sequence...", "system");
-    const result = await audioService.runCode(targetCode, (msg, type) => {
-      addLog(msg, type);
+    const result = await audioService.runCode(targetCode, (msg, type, location, source) => {
+      addLog(msg, type, location, source);
+    }, { sources: sketchSources(file, targetCode) });
+
+    evaluationHistory.record({
+      code: targetCode,
+      file,
+      bpm,
+      success: result.success,
+      error: result.error,
+      source,
     });
     
     if (result.success) {
@@ -219,11 +498,47 @@ const App: React.FC = () => {
       addLog(">> KERNEL: RUNNING", "success");
       return { success: true };
     } else {
-      setIsPlaying(false);
+      // A failed re-run leaves the previous loops playing, so isPlaying stays as is
       addLog(`>> KERNEL PANIC: ${result.error}`, "error");
       return { success: false, error: result.error };
     }
   };
+  handleRunRef.current = handleRun;
+
+  // Evaluate a selection or block on top of what is playing. Error positions
+  // come back relative to the fragment and are shifted onto the buffer.
+  const handleEvaluate = async (fragment: string, start: SourceLocation) => {
+    const file = sharedSketch ? SHARED_FILE : project.activeFile;
+    const toBuffer = (location?: SourceLocation): SourceLocation | undefined => {
+      // Errors inside imported buffers already point at the right place
+      if (!location || location.file !== file) return location;
+      return {
+        ...location,
+        line: location.line + start.line - 1,
+        column: location.line === 1 ? location.column + start.column - 1 : location.column,
+      };
+    };
+    addLog(`Evaluating lines ${start.line}-${start.line + fragment.split('\n').length - 1}...`, "system");
+    const result = await audioService.runCode(fragment, (msg, type, location, source) => {
+      addLog(msg, type, toBuffer(location), source);
+    }, { partial: true, sources: sketchSources(file) });
+
+    if (result.success) {
+      setIsPlaying(true);
+      addLog(">> KERNEL: RUNNING", "success");
+    } else {
+      addLog(`>> KERNEL PANIC: ${result.error}`, "error");
+    }
+  };
+
+  // Put an earlier version back in its buffer and run it again
+  const handleRestoreSnapshot = (snapshot: Snapshot) => {
+    const file = project.files.some(f => f.name === snapshot.file) ? snapshot.file : project.activeFile;
+    setProject(prev => ({ ...withFile(prev, file, snapshot.code), activeFile: file }));
+    setBpm(snapshot.bpm);
+    addLog(`Restored ${file.toUpperCase()} from ${snapshot.timestamp}`, "system");
+    handleRun(snapshot.code, 'human', file);
+  };
 
   const handleStop = () => {
     audioService.stop();
@@ -231,134 +546,585 @@ const App: React.FC = () => {
     addLog(">> PROCESS TERMINATED", "system");
   };
 
+  const handleBounce = async () => {
+    if (isBouncing) return;
+    setIsBouncing(true);
+    addLog(`Bouncing ${bounceBars} bars @ ${bpm} BPM...`, "system");
+    try {
+      const started = performance.now();
+      const buffer = await audioService.bounce(code, bounceBars, (msg, type, location, source) => addLog(msg, type, location, source), sketchSources());
+      const audio = buffer.get();
+      if (!audio) throw new Error("Render produced no audio");
+
+      const blob = encodeWav(audio, bounceBitDepth);
+      const filename = `sonic_shell_${bpm}bpm_${bounceBars}bars.wav`;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      const elapsed = ((performance.now() - started) / 1000).toFixed(1);
+      addLog(`>> BOUNCE COMPLETE: ${filename} (${audio.duration.toFixed(1)}s, ${bounceBitDepth}-bit, ${elapsed}s)`, "success");
+    } catch (err: any) {
+      console.error(err);
+      addLog(`>> BOUNCE FAILED: ${err.message}`, "error");
+    } finally {
+      setIsBouncing(false);
+    }
+  };
+
+  const handleToggleRecord = async () => {
+    try {
+      if (audioService.recorder.isRecording) {
+        const take = await audioService.recorder.stop();
+        setIsRecording(false);
+        setIsTakesOpen(true);
+        addLog(`>> TAKE SAVED: ${take.name} (${take.duration.toFixed(1)}s)`, "success");
+      } else {
+        await audioService.initialize();
+        await audioService.recorder.start();
+        setIsRecording(true);
+        addLog(">> RECORDING MASTER OUTPUT", "system");
+      }
+    } catch (err: any) {
+      console.error(err);
+      setIsRecording(audioService.recorder.isRecording);
+      addLog(`>> RECORDER FAULT: ${err.message}`, "error");
+    }
+  };
+
+  const handleToggleMidiCapture = async () => {
+    try {
+      if (audioService.midi.isCapturing) {
+        const count = audioService.midi.noteCount();
+        const data = audioService.midi.stop();
+        setIsCapturingMidi(false);
+
+        const filename = `sonic_shell_${bpm}bpm.mid`;
+        const url = URL.createObjectURL(new Blob([data], { type: 'audio/midi' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+        addLog(`>> MIDI EXPORTED: ${filename} (${count} notes)`, "success");
+      } else {
+        await audioService.startMidiCapture();
+        setIsCapturingMidi(true);
+        addLog(">> CAPTURING MIDI", "system");
+      }
+    } catch (err: any) {
+      console.error(err);
+      setIsCapturingMidi(audioService.midi.isCapturing);
+      addLog(`>> MIDI FAULT: ${err.message}`, "error");
+    }
+  };
+
+  const handleDeleteTake = (id: string) => {
+    const take = takes.find(t => t.id === id);
+    audioService.recorder.remove(id);
+    if (take) addLog(`Deleted take: ${take.name}`, "info");
+  };
+
+  const handleAddSamples = async (files: FileList) => {
+    for (const file of Array.from(files)) {
+      if (!file.type.startsWith('audio/')) {
+        addLog(`Skipped ${file.name}: not an audio file`, "error");
+        continue;
+      }
+      try {
+        const info = await sampleLibrary.add(file);
+        addLog(`Sample loaded: ${info.name} (${info.duration.toFixed(2)}s)`, "success");
+      } catch (err: any) {
+        addLog(`Could not load ${file.name}: ${err.message}`, "error");
+      }
+    }
+  };
+
+  const handlePreviewSample = (name: string) => {
+    audioService.previewSample(name).catch((err) => addLog(`Preview failed: ${err.message}`, "error"));
+  };
+
+  const handleDeleteSample = async (name: string) => {
+    try {
+      await sampleLibrary.remove(name);
+      addLog(`Sample deleted: ${name}`, "info");
+    } catch (err: any) {
+      addLog(`Could not delete sample ${name}: ${err.message}`, "error");
+    }
+  };
+
+  const handleSavePreset = async (instrument: string, name: string) => {
+    const pool = audioService.instruments;
+    const voice = pool?.list().find(v => v.name === instrument);
+    if (!pool || !voice) return;
+    try {
+      await presetLibrary.save(name, voice.type, pool.get(instrument)!.get());
+      addLog(`Preset saved: ${name} (from ${instrument})`, "success");
+    } catch (err: any) {
+      addLog(`Could not save preset ${name}: ${err.message}`, "error");
+    }
+  };
+
+  const handleApplyPreset = (name: string, instrument: string) => {
+    try {
+      audioService.instruments?.apply(instrument, presetLibrary.require(name));
+      addLog(`Preset ${name} loaded onto ${instrument}`, "info");
+    } catch (err: any) {
+      addLog(`Could not load preset: ${err.message}`, "error");
+    }
+  };
+
+  const handleRenamePreset = async (from: string, to: string): Promise<string | null> => {
+    try {
+      await presetLibrary.rename(from, to);
+      return null;
+    } catch (err: any) {
+      return err.message;
+    }
+  };
+
+  const handleSetDefaultPreset = async (name: string, voice: string | undefined) => {
+    try {
+      await presetLibrary.setDefault(name, voice);
+      addLog(voice ? `${voice} now starts from preset ${name}` : `Preset ${name} is no longer a default`, "info");
+    } catch (err: any) {
+      addLog(`Could not set default: ${err.message}`, "error");
+    }
+  };
+
+  const handleDeletePreset = async (name: string) => {
+    try {
+      await presetLibrary.remove(name);
+      addLog(`Preset deleted: ${name}`, "info");
+    } catch (err: any) {
+      addLog(`Could not delete preset ${name}: ${err.message}`, "error");
+    }
+  };
+
+  const handleExportPresets = (selection: InstrumentPreset[]) => {
+    const json = presetLibrary.toJson(selection);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = selection.length === 1
+      ? `${fileNameFrom(selection[0].name)?.replace(/\.js$/, '') ?? 'preset'}.preset.json`
+      : 'sonic_shell_presets.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    addLog(`>> PRESETS EXPORTED: ${link.download} (${selection.length})`, "success");
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = await presetLibrary.fromJson(await file.text());
+      addLog(`>> PRESETS IMPORTED: ${imported.map(p => p.name).join(', ')}`, "success");
+    } catch (err: any) {
+      addLog(`Could not import ${file.name}: ${err.message}`, "error");
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.files.length) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    setIsSamplesOpen(true);
+    handleAddSamples(e.dataTransfer.files);
+  };
+
+  const handleToggleMute = (name: string) => {
+    const loop = loops.find(l => l.name === name);
+    if (loop?.muted) audioService.loops.unmute(name);
+    else audioService.loops.mute(name);
+  };
+
+  const handleToggleSolo = (name: string) => {
+    const loop = loops.find(l => l.name === name);
+    if (loop?.soloed) audioService.loops.unsolo(name);
+    else audioService.loops.solo(name);
+  };
+
+  const handleKillLoop = (name: string) => {
+    if (audioService.loops.kill(name)) addLog(`Killed loop: ${name}`, "info");
+  };
+
+  const openProject = (next: Project) => {
+    setProject(next);
+    setBpm(next.bpm);
+    setTransport(next.transport);
+    setVisMode(next.visMode);
+    setErrorMarkers({});
+  };
+
+  const handleOpenProject = (id: string) => {
+    const next = projectStore.get(id);
+    if (!next) return;
+    openProject(next);
+    addLog(`Opened project: ${next.name}`, "info");
+  };
+
+  const handleNewProject = async () => {
+    try {
+      const next = await projectStore.save(createProject(`Set ${projects.length + 1}`, DEFAULT_CODE));
+      openProject(next);
+      addLog(`Created project: ${next.name}`, "info");
+    } catch (err: any) {
+      addLog(`Could not create project: ${err.message}`, "error");
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const target = projectStore.get(id);
+    if (!target || !window.confirm(`Delete project "${target.name}"? This cannot be undone.`)) return;
+    try {
+      await projectStore.remove(id);
+      await conversationStore.remove(id);
+      addLog(`Deleted project: ${target.name}`, "info");
+    } catch (err: any) {
+      addLog(`Could not delete project ${target.name}: ${err.message}`, "error");
+    }
+  };
+
+  const handleExportProject = () => {
+    const json = projectStore.toJson({ ...project, bpm, transport, visMode });
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileNameFrom(project.name)?.replace(/\.js$/, '') ?? 'project'}.sonic.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    addLog(`>> PROJECT EXPORTED: ${link.download}`, "success");
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = await projectStore.fromJson(await file.text());
+      openProject(imported);
+      addLog(`>> PROJECT IMPORTED: ${imported.name} (${imported.files.length} buffers)`, "success");
+    } catch (err: any) {
+      addLog(`Could not import ${file.name}: ${err.message}`, "error");
+    }
+  };
+
+  const handleNewFile = () => {
+    let n = project.files.length;
+    while (project.files.some(f => f.name === `buffer_${n}.js`)) n++;
+    const name = `buffer_${n}.js`;
+    setProject(prev => ({
+      ...prev,
+      files: [...prev.files, { name, content: `// ${name.toUpperCase()}\n// export helpers here and import them from other buffers:\n// import { bass } from './${name}';\n` }],
+      activeFile: name,
+    }));
+  };
+
+  const handleRenameFile = (from: string, to: string): string | null => {
+    const name = fileNameFrom(to);
+    if (!name) return "Use letters, numbers, - and _";
+    if (name !== from && project.files.some(f => f.name === name)) return `${name} already exists`;
+    setProject(prev => ({
+      ...prev,
+      files: prev.files.map(f => f.name === from ? { ...f, name } : f),
+      activeFile: prev.activeFile === from ? name : prev.activeFile,
+    }));
+    return null;
+  };
+
+  const handleDeleteFile = (name: string) => {
+    if (project.files.length <= 1 || !window.confirm(`Delete buffer ${name.toUpperCase()}?`)) return;
+    setProject(prev => {
+      const files = prev.files.filter(f => f.name !== name);
+      return { ...prev, files, activeFile: prev.activeFile === name ? files[0].name : prev.activeFile };
+    });
+  };
+
   const handleClearLogs = () => {
-    setLogs([]);
+    kernelLog.clear();
     addLog("Buffer cleared.", "system");
   };
 
-  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
-    if (lineNumbersRef.current) {
-      lineNumbersRef.current.scrollTop = e.currentTarget.scrollTop;
-    }
+  const handleExportLogs = (entries: LogEntry[], format: 'json' | 'txt') => {
+    const data = format === 'json' ? kernelLog.toJson(entries) : kernelLog.toText(entries);
+    const url = URL.createObjectURL(new Blob([data], { type: format === 'json' ? 'application/json' : 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kernel_log_${new Date().toISOString().replace(/[:.]/g, '-')}.${format === 'json' ? 'log.json' : 'log.txt'}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    addLog(`>> LOG EXPORTED: ${link.download} (${entries.length} entries)`, "success");
   };
 
   // --------------------------------------------------------------------------
   // AI AGENT LOGIC
   // --------------------------------------------------------------------------
 
-  const initializeAgent = () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const runCodeTool: FunctionDeclaration = {
-      name: "run_generated_code",
-      description: "Compiles and runs the generated Tone.js code. Returns success or error message.",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          code: {
-            type: Type.STRING,
-            description: "The JavaScript code to execute.",
-          },
-        },
-        required: ["code"],
-      },
-    };
+  // Sessions are created on first use, so nothing needs a key until the
+  // agent is actually asked something
+  const getAgentSession = (): ChatSession => {
+    if (!chatSessionRef.current) {
+      chatSessionRef.current = createProvider(agentSettings).createSession({
+        systemInstruction: AGENT_INSTRUCTION,
+        tools: AGENT_TOOLS,
+        // Resume the stored conversation
+        history: messages
+          .filter(msg => msg.role === 'user' || msg.role === 'model')
+          .map(msg => ({ role: msg.role as 'user' | 'model', text: msg.text })),
+      });
+    }
+    return chatSessionRef.current;
+  };
 
-    const systemInstruction = `
-      You are GHOST_IN_SHELL, an advanced audio live-coding agent.
-      Your job is to write Tone.js code to make music based on user requests.
-      
-      AVAILABLE INSTRUMENTS:
-      - kick (MembraneSynth)
-      - snare (NoiseSynth)
-      - hat (MetalSynth)
-      - synth (MonoSynth)
-      - poly (PolySynth)
-      
-      HELPER: loop(name, interval, callback)
-      
-      RULES:
-      1. ALWAYS call the tool 'run_generated_code' when you write code. Do not just show it.
-      2. If the tool returns an ERROR, you MUST analyze the error, rewrite the code to fix it, and call 'run_generated_code' again.
-      3. Repeat this until the code runs successfully.
-      4. Keep code efficient. Avoid mixing string/number types in calculations (e.g. time + "8n" is invalid).
-      5. Use 'time' argument in callbacks for precise scheduling.
-    `;
-
-    chatSessionRef.current = ai.chats.create({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction,
-        tools: [{ functionDeclarations: [runCodeTool] }],
-      },
-    });
+  const handleSaveAgentSettings = (settings: ProviderSettings) => {
+    saveAgentSettings(settings);
+    setAgentSettings(settings);
+    // The next message starts a fresh conversation on the new provider
+    chatSessionRef.current = null;
+    setIsAgentSettingsOpen(false);
+    setMessages(prev => [...prev, { role: 'system', text: `>> Provider set to ${settings.kind.toUpperCase()}${settings.kind === 'mock' ? '' : ` (${settings.model})`}` }]);
+  };
+
+  // Conversation updates from the turn in flight. After a project switch the
+  // old turn may still be winding down; none of it reaches the new project.
+  const postTurnMessage = (update: SetStateAction<ChatMessage[]>) => {
+    if (agentTurnProjectRef.current === projectRef.current.id) setMessages(update);
+  };
+
+  // Put agent code in its buffer and run it. In review mode the change waits
+  // in the REVIEW drawer first, where the user may edit or reject it. rebase
+  // redoes a patch on the buffer as it is now, for when the user typed into
+  // it while the review was open.
+  const runAgentCode = async (tool: string, file: string, proposed: string, successText: string, rebase?: (current: string) => string): Promise<string> => {
+    let finalCode = proposed;
+    let edited = false;
+    if (reviewModeRef.current) {
+      const contentOf = () => projectRef.current.files.find(f => f.name === file)?.content ?? '';
+      let before = contentOf();
+      let after = proposed;
+      postTurnMessage(prev => [...prev, { role: 'system', text: `>> Waiting for review...` }]);
+      for (;;) {
+        const shown = { before, after };
+        const decision = await new Promise<ReviewDecision>((resolve) => {
+          reviewResolveRef.current = resolve;
+          setProposal({ id: Math.random().toString(36).slice(2, 11), tool, file, ...shown });
+        });
+        if (decision.kind === 'reject') {
+          postTurnMessage(prev => [...prev, { role: 'system', text: `>> Change rejected` }]);
+          return `Rejected by the user: ${decision.reason.trim() || 'no reason given'}. Nothing was changed or run.`;
+        }
+        edited = edited || decision.edited;
+        finalCode = decision.code;
+        before = contentOf();
+        if (before === shown.before) break;
+
+        // The accepted diff no longer matches the buffer: show it again
+        // against what is there now rather than overwrite the user's typing
+        if (rebase && !edited) {
+          try {
+            finalCode = rebase(before);
+          } catch (err: any) {
+            postTurnMessage(prev => [...prev, { role: 'system', text: `>> Buffer changed during review; patch no longer applies` }]);
+            return `Error: ${file} changed while your patch waited for review, and it no longer applies (${err.message}). Read the buffer again with get_current_code.`;
+          }
+        }
+        after = finalCode;
+        postTurnMessage(prev => [...prev, { role: 'system', text: `>> Buffer changed during review. Showing the change again...` }]);
+      }
+    }
+
+    setProject(prev => withFile(prev, file, finalCode));
+    projectRef.current = withFile(projectRef.current, file, finalCode);
+
+    const result = await handleRunRef.current!(finalCode, 'ghost', file);
+    if (!result.success) {
+      postTurnMessage(prev => [...prev, { role: 'system', text: `>> Compilation Failed. Retrying...` }]);
+    }
+    const note = edited ? `\nThe user edited your code before running it. ${file} now reads:\n${finalCode}` : '';
+    return (result.success ? successText : `Error: ${result.error}`) + note;
+  };
+
+  const handleReviewDecision = (decision: ReviewDecision) => {
+    reviewResolveRef.current?.(decision);
+    reviewResolveRef.current = null;
+    setProposal(null);
+  };
+
+  const handleToggleReviewMode = () => {
+    const next = !reviewMode;
+    saveReviewMode(next);
+    setReviewMode(next);
+    addLog(`>> GHOST REVIEW MODE: ${next ? 'ON' : 'OFF'}`, "system");
+  };
+
+  const agentTools: Record<string, ToolHandler> = {
+    run_generated_code: async (args) => {
+      if (sharedSketchRef.current) return SHARED_SKETCH_ERROR;
+      if (typeof args.code !== 'string') return "Error: missing 'code' argument";
+      return runAgentCode('run_generated_code', projectRef.current.activeFile, args.code, "Success: Audio started.");
+    },
+
+    get_current_code: (args) => {
+      const current = projectRef.current;
+      const file = typeof args.file === 'string' && args.file ? args.file : current.activeFile;
+      const buffer = current.files.find(f => f.name === file);
+      if (!buffer) return `Error: no buffer named '${file}'. Buffers: ${current.files.map(f => f.name).join(', ')}`;
+      const others = current.files.filter(f => f.name !== file).map(f => f.name);
+      return [
+        `// ${file}${file === current.activeFile ? ' (active)' : ''}${others.length > 0 ? `; other buffers: ${others.join(', ')}` : ''}`,
+        buffer.content,
+      ].join('\n');
+    },
+
+    get_recent_logs: (args) => {
+      const count = Math.min(50, Math.max(1, Math.floor(Number(args.count) || 20)));
+      const recent = kernelLog.list().slice(-count);
+      if (recent.length === 0) return "Log is empty.";
+      return recent.map(log =>
+        `[${log.timestamp}] ${log.type.toUpperCase()} ${log.source ? `[${log.source}] ` : ''}${log.message}` +
+        (log.count && log.count > 1 ? ` (x${log.count})` : '') +
+        (log.location ? ` @ ${formatLocation(log.location)}` : '')
+      ).join('\n');
+    },
+
+    apply_patch: async (args) => {
+      if (sharedSketchRef.current) return SHARED_SKETCH_ERROR;
+      const current = projectRef.current;
+      const file = current.activeFile;
+      const edits = Array.isArray(args.edits) ? args.edits : [];
+      let patched: string;
+      try {
+        patched = applyPatch(activeContent(current), edits);
+      } catch (err: any) {
+        return `Error: ${err.message}`;
+      }
+      return runAgentCode('apply_patch', file, patched, "Success: patch applied and running.", (content) => applyPatch(content, edits));
+    },
+
+    set_bpm: (args) => {
+      const value = Number(args.bpm);
+      if (!Number.isFinite(value)) return "Error: 'bpm' must be a number";
+      // Same range as the BPM slider
+      const next = clampBpm(Math.round(value));
+      setBpm(next);
+      addLog(`>> GHOST: BPM ${next}`, "info");
+      if (next === value) return `BPM set to ${next}.`;
+      if (value < MIN_BPM || value > MAX_BPM) return `BPM clamped to ${next} (range ${MIN_BPM}-${MAX_BPM}).`;
+      return `BPM rounded to ${next}.`;
+    },
+
+    stop_audio: () => {
+      handleStop();
+      return "Stopped. All loops cleared.";
+    },
+
+    list_active_loops: () => {
+      const active = audioService.loops.list();
+      const { timeSignature, swing, swingSubdivision, key } = audioService.transport.current;
+      const header = `Transport: ${Tone.Transport.state === 'started' ? 'running' : 'stopped'} @ ${Math.round(audioService.transport.bpm)} BPM, ` +
+        `${timeSignature.join('/')}, swing ${Math.round(swing * 100)}% on ${swingSubdivision}, key ${key}`;
+      const voices = audioService.instruments?.list() ?? [];
+      const instruments = voices.length > 0 ? `\nInstruments: ${voices.map(v => `${v.name} (${v.type})`).join(', ')}` : '';
+      const live = audioService.controls.list();
+      const controlLine = live.length > 0 ? `\nControls: ${live.map(c => `${c.name}=${JSON.stringify(c.value)}`).join(', ')}` : '';
+      if (active.length === 0) return `${header}${instruments}${controlLine}\nNo loops.`;
+      return [header + instruments + controlLine, ...active.map(loop => {
+        const flags = [loop.muted && 'muted', loop.soloed && 'soloed', !loop.audible && 'inaudible'].filter(Boolean);
+        return `- ${loop.name} every ${loop.interval}: ${loop.state}` +
+          (flags.length > 0 ? ` (${flags.join(', ')})` : '') +
+          (loop.lastError ? ` last error: ${loop.lastError}` : '');
+      })].join('\n');
+    },
   };
 
   const handleAgentSubmit = async () => {
-    if (!input.trim() || !chatSessionRef.current || isAgentProcessing) return;
+    if (!input.trim() || isAgentProcessing) return;
     
     const userText = input;
     setInput("");
     setMessages(prev => [...prev, { role: 'user', text: userText }]);
     setIsAgentProcessing(true);
+    const controller = new AbortController();
+    agentAbortRef.current = controller;
+    agentTurnProjectRef.current = projectRef.current.id;
 
-    try {
-      // 1. Send User Message
-      let response = await chatSessionRef.current.sendMessage({ message: userText });
-      
-      // 2. Loop to handle Function Calls (Agentic Loop)
-      let maxTurns = 5; // Safety break
-      
-      while (response.functionCalls && response.functionCalls.length > 0 && maxTurns > 0) {
-        maxTurns--;
-        const call = response.functionCalls[0];
-        
-        if (call.name === 'run_generated_code') {
-          const args = call.args as { code: string };
-          setMessages(prev => [...prev, { role: 'system', text: `>> Compiling Generated Code...` }]);
-          
-          // Update Editor Visual
-          setCode(args.code);
+    const updateTool = (id: string, result: string) => postTurnMessage(prev => prev.map(msg =>
+      msg.tool?.id === id ? { ...msg, tool: { ...msg.tool, result } } : msg
+    ));
 
-          // Execute
-          const result = await handleRun(args.code);
-          
-          // Send result back to model
-          const toolResult = result.success ? "Success: Audio started." : `Error: ${result.error}`;
-          
-          if (!result.success) {
-             setMessages(prev => [...prev, { role: 'system', text: `>> Compilation Failed. Retrying...` }]);
+    try {
+      const session = getAgentSession();
+      await runAgentLoop(session, userText, {
+        signal: controller.signal,
+        onSystem: (text) => postTurnMessage(prev => [...prev, { role: 'system', text }]),
+        // Text streams into the latest model message until a tool step or
+        // system note comes between
+        onText: (delta) => postTurnMessage(prev => {
+          const last = prev[prev.length - 1];
+          if (last?.role === 'model') {
+            return [...prev.slice(0, -1), { ...last, text: last.text + delta }];
           }
-
-          response = await chatSessionRef.current.sendMessage({
-            message: [{
-              functionResponse: {
-                name: 'run_generated_code',
-                response: { result: toolResult },
-              },
-            }]
-          });
-        }
-      }
-
-      // 3. Final Model Response
-      const modelText = response.text;
-      if (modelText) {
-         setMessages(prev => [...prev, { role: 'model', text: modelText }]);
-      }
-
+          return [...prev, { role: 'model', text: delta }];
+        }),
+        onToolCall: (call) => postTurnMessage(prev => [...prev, { role: 'tool', text: '', tool: { id: call.id, name: call.name, args: call.args } }]),
+        onToolResult: (call, result) => updateTool(call.id, result),
+        tools: agentTools,
+      });
     } catch (err: any) {
-      console.error(err);
-      setMessages(prev => [...prev, { role: 'system', text: `>> SYSTEM ERROR: ${err.message}` }]);
+      if (controller.signal.aborted) {
+        // Providers may be left mid-exchange; the next message resumes from the stored text
+        chatSessionRef.current = null;
+        postTurnMessage(prev => [
+          ...prev.map(msg => msg.tool && msg.tool.result === undefined ? { ...msg, tool: { ...msg.tool, result: 'Error: cancelled' } } : msg),
+          { role: 'system', text: `>> TURN CANCELLED` },
+        ]);
+      } else {
+        console.error(err);
+        if (err instanceof ProviderConfigError) setIsAgentSettingsOpen(true);
+        postTurnMessage(prev => [...prev, { role: 'system', text: `>> SYSTEM ERROR: ${err.message}` }]);
+      }
     } finally {
+      if (agentAbortRef.current === controller) {
+        agentAbortRef.current = null;
+        agentTurnProjectRef.current = null;
+      }
       setIsAgentProcessing(false);
     }
   };
 
-  const lineCount = code.split('\n').length;
+  const handleAgentCancel = () => {
+    agentAbortRef.current?.abort();
+    // A proposal waiting for review would hold the turn open
+    if (reviewResolveRef.current) handleReviewDecision({ kind: 'reject', reason: 'The user cancelled this turn.' });
+  };
+
+  const handleClearConversation = () => {
+    if (isAgentProcessing) return;
+    chatSessionRef.current = null;
+    setMessages([AGENT_WELCOME]);
+  };
 
   return (
-    <div className="h-screen bg-zinc-950 text-green-400 font-mono flex flex-col selection:bg-green-900 selection:text-green-100 overflow-hidden relative">
+    <div
+      className="h-screen bg-zinc-950 text-green-400 font-mono flex flex-col selection:bg-green-900 selection:text-green-100 overflow-hidden relative"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFiles(false); }}
+      onDrop={handleDrop}
+    >
+      
+      {/* DROP OVERLAY */}
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-50 bg-black/80 border-2 border-dashed border-green-500 flex items-center justify-center pointer-events-none">
+          <span className="flex items-center gap-3 text-xl font-bold tracking-widest">
+            <FileAudio className="w-6 h-6" /> DROP SAMPLES
+          </span>
+        </div>
+      )}
       
       {/* BACKGROUND EFFECTS */}
       <div className="fixed inset-0 pointer-events-none z-0 opacity-10 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] bg-[length:100%_2px,3px_100%]"></div>
@@ -376,20 +1142,55 @@ const App: React.FC = () => {
              <span>CTRL+. : STOP</span>
           </div>
 
-          <div className="flex items-center gap-3 bg-zinc-900/50 px-4 py-2 rounded border border-green-500/20">
-            <Sliders className="w-4 h-4 opacity-70" />
-            <span className="text-sm font-bold min-w-[3ch]">{bpm}</span>
-            <span className="text-xs opacity-50">BPM</span>
-            <input 
-              type="range" 
-              min="60" 
-              max="200" 
-              value={bpm} 
-              onChange={(e) => setBpm(parseInt(e.target.value))}
-              className="w-32 h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-green-500"
-            />
-          </div>
+          <TransportBar
+            bpm={bpm}
+            onBpmChange={setBpm}
+            settings={transport}
+            onSettingsChange={setTransport}
+            isPlaying={isPlaying}
+          />
           
+          <button 
+             onClick={() => setIsProjectsOpen(!isProjectsOpen)}
+             title={project.name}
+             className={`flex items-center gap-2 px-4 py-2 border transition-all ${isProjectsOpen ? 'bg-green-500 text-black border-green-400' : 'bg-zinc-900 border-green-500/30 text-green-500/70 hover:text-green-400'}`}
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span className="text-xs font-bold hidden md:inline">PROJECTS</span>
+          </button>
+
+          <button 
+             onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+             className={`flex items-center gap-2 px-4 py-2 border transition-all ${isHistoryOpen ? 'bg-green-500 text-black border-green-400' : 'bg-zinc-900 border-green-500/30 text-green-500/70 hover:text-green-400'}`}
+          >
+            <History className="w-4 h-4" />
+            <span className="text-xs font-bold hidden md:inline">HISTORY</span>
+          </button>
+
+          <button 
+             onClick={() => setIsSamplesOpen(!isSamplesOpen)}
+             className={`flex items-center gap-2 px-4 py-2 border transition-all ${isSamplesOpen ? 'bg-green-500 text-black border-green-400' : 'bg-zinc-900 border-green-500/30 text-green-500/70 hover:text-green-400'}`}
+          >
+            <FileAudio className="w-4 h-4" />
+            <span className="text-xs font-bold hidden md:inline">SAMPLES</span>
+          </button>
+
+          <button 
+             onClick={() => setIsPresetsOpen(!isPresetsOpen)}
+             className={`flex items-center gap-2 px-4 py-2 border transition-all ${isPresetsOpen ? 'bg-green-500 text-black border-green-400' : 'bg-zinc-900 border-green-500/30 text-green-500/70 hover:text-green-400'}`}
+          >
+            <Piano className="w-4 h-4" />
+            <span className="text-xs font-bold hidden md:inline">PRESETS</span>
+          </button>
+
+          <button 
+             onClick={() => setIsMixerOpen(!isMixerOpen)}
+             className={`flex items-center gap-2 px-4 py-2 border transition-all ${isMixerOpen ? 'bg-green-500 text-black border-green-400' : 'bg-zinc-900 border-green-500/30 text-green-500/70 hover:text-green-400'}`}
+          >
+            <SlidersVertical className="w-4 h-4" />
+            <span className="text-xs font-bold hidden md:inline">MIXER</span>
+          </button>
+
           <button 
              onClick={() => setIsAgentOpen(!isAgentOpen)}
              className={`flex items-center gap-2 px-4 py-2 border transition-all ${isAgentOpen ? 'bg-green-500 text-black border-green-400' : 'bg-zinc-900 border-green-500/30 text-green-500/70 hover:text-green-400'}`}
@@ -405,78 +1206,89 @@ const App: React.FC = () => {
         
         {/* LEFT: EDITOR */}
         <section className={`flex flex-col border-r border-green-500/30 transition-all duration-300 ${isAgentOpen ? 'w-1/2' : 'w-3/5'}`}>
-          <div className="bg-zinc-900/50 px-4 py-2 text-xs flex justify-between items-center border-b border-green-500/20 text-green-500/70 shrink-0">
-            <span className="flex items-center gap-2"><Terminal className="w-3 h-3"/> MAIN.JS</span>
-            <span className="flex gap-2">
+          <div className="bg-zinc-900/50 pr-4 text-xs flex justify-between items-center border-b border-green-500/20 text-green-500/70 shrink-0">
+            {sharedSketch ? (
+              <span className="flex items-center gap-2 px-4 py-2"><Link className="w-3 h-3"/> {SHARED_FILE.toUpperCase()}</span>
+            ) : (
+              <FileTabs
+                files={project.files}
+                activeFile={project.activeFile}
+                onSelect={(name) => setProject(prev => ({ ...prev, activeFile: name }))}
+                onCreate={handleNewFile}
+                onRename={handleRenameFile}
+                onDelete={handleDeleteFile}
+              />
+            )}
+            <span className="flex items-center gap-2 shrink-0 pl-4">
+                <button onClick={handleShare} title="Copy a link to this sketch" className="flex items-center gap-1 opacity-50 hover:opacity-100">
+                  <Link className="w-3 h-3" /> SHARE
+                </button>
+                <span className="opacity-50">ALT+ENTER: BLOCK // CTRL+SHIFT+ENTER: SELECTION</span>
                 <span>UTF-8</span>
             </span>
           </div>
           
-          <div className="flex-1 relative flex bg-[#050505] min-h-0">
-            {/* Line Numbers */}
-            <div 
-              ref={lineNumbersRef}
-              className="w-12 pt-6 pr-2 text-right text-green-900 select-none overflow-hidden font-mono text-sm leading-relaxed border-r border-green-900/20 h-full"
-            >
-              {Array.from({ length: lineCount }).map((_, i) => (
-                <div key={i}>{i + 1}</div>
-              ))}
+          {sharedSketch && (
+            <div className="px-4 py-2 text-xs flex items-center justify-between bg-yellow-900/10 border-b border-yellow-500/30 text-yellow-400/80 shrink-0">
+              <span>SHARED_SKETCH // READ-ONLY PREVIEW. Nothing plays until EXECUTE_.</span>
+              <span className="flex items-center gap-3">
+                <button onClick={handleForkShared} className="flex items-center gap-1 font-bold hover:text-yellow-200">
+                  <GitFork className="w-3 h-3" /> FORK
+                </button>
+                <button onClick={handleDiscardShared} className="flex items-center gap-1 opacity-60 hover:opacity-100">
+                  <X className="w-3 h-3" /> DISCARD
+                </button>
+              </span>
             </div>
+          )}
 
-            {/* Editor Area */}
-            <div className="flex-1 relative group h-full">
-              <textarea 
-                ref={textareaRef}
-                value={code}
-                onChange={(e) => setCode(e.target.value)}
-                onScroll={handleScroll}
-                className="w-full h-full bg-transparent text-green-400 p-6 pt-6 resize-none outline-none border-none font-mono text-sm leading-relaxed"
-                spellCheck="false"
-                autoComplete="off"
-              />
-              <div className="absolute inset-0 pointer-events-none shadow-[inset_0_0_50px_rgba(0,0,0,0.8)]"></div>
-            </div>
+          <div className="flex-1 relative bg-[#050505] min-h-0">
+            <CodeEditor
+              ref={editorRef}
+              path={sharedSketch ? SHARED_FILE : `${project.id}/${project.activeFile}`}
+              value={code}
+              onChange={setCode}
+              readOnly={!!sharedSketch}
+              markers={errorMarkers[sharedSketch ? SHARED_FILE : project.activeFile] ?? NO_MARKERS}
+              onRun={() => handleRun()}
+              onStop={handleStop}
+              onEvaluate={handleEvaluate}
+            />
+            <div className="absolute inset-0 pointer-events-none shadow-[inset_0_0_50px_rgba(0,0,0,0.8)]"></div>
           </div>
         </section>
 
         {/* MIDDLE: OUTPUT & VISUALS */}
         <section className={`flex flex-col bg-zinc-900/20 transition-all duration-300 ${isAgentOpen ? 'w-1/4' : 'w-2/5'}`}>
           <div 
-            onClick={() => setVisMode(prev => prev === 'waveform' ? 'fft' : 'waveform')}
+            onClick={() => setVisMode(nextVisMode)}
+            title="Click for the next view"
             className="h-1/3 border-b border-green-500/30 relative flex items-center justify-center overflow-hidden bg-black shrink-0 cursor-pointer group"
           >
              <div className="absolute top-2 left-2 text-[10px] opacity-50 tracking-widest z-10 flex items-center gap-2 group-hover:opacity-100 transition-opacity">
                <Activity className="w-3 h-3" />
-               VISUALIZER_{visMode.toUpperCase()}
+               VISUALIZER_{VISUALIZERS[visMode].label}
             </div>
             <canvas ref={canvasRef} className="w-full h-full block"/>
           </div>
 
-          <div className="flex-1 flex flex-col min-h-0 bg-[#0a0a0a]">
-            <div className="flex items-center justify-between px-4 py-2 border-b border-green-500/20 bg-zinc-900/50 shrink-0">
-              <span className="text-xs font-bold opacity-70 flex items-center gap-2">
-                <Zap className="w-3 h-3" /> KERNEL_LOG
-              </span>
-              <button onClick={handleClearLogs} className="hover:text-white transition-colors">
-                <Trash2 className="w-3 h-3 opacity-50" />
-              </button>
-            </div>
-            
-            <div className="flex-1 overflow-y-auto p-4 font-mono text-xs space-y-1 custom-scrollbar">
-              {logs.map((log) => (
-                <div key={log.id} className={`flex gap-3 ${
-                  log.type === 'error' ? 'text-red-400' : 
-                  log.type === 'success' ? 'text-green-300 font-bold' : 
-                  log.type === 'system' ? 'text-green-600 italic' : 
-                  'text-green-400/80'
-                }`}>
-                  <span className="opacity-30 shrink-0">[{log.timestamp}]</span>
-                  <span className="break-all">{log.message}</span>
-                </div>
-              ))}
-              <div ref={logsEndRef} />
-            </div>
-          </div>
+          <ControlPanel controls={controls} onChange={(name, value) => audioService.controls.set(name, value)} />
+
+          <LoopPanel
+            loops={loops}
+            onToggleMute={handleToggleMute}
+            onToggleSolo={handleToggleSolo}
+            onKill={handleKillLoop}
+          />
+
+          <LogPanel
+            logs={logs}
+            capacity={logCapacity}
+            onCapacityChange={(size) => kernelLog.setSize(size)}
+            onClear={handleClearLogs}
+            onExport={handleExportLogs}
+            onJump={jumpToLocation}
+          />
         </section>
 
         {/* RIGHT: AGENT TERMINAL (Collapsible) */}
@@ -485,14 +1297,45 @@ const App: React.FC = () => {
               <div className="px-4 py-3 bg-green-900/10 border-b border-green-500/20 flex items-center justify-between">
                  <span className="flex items-center gap-2 text-xs font-bold tracking-widest text-green-400">
                     <Bot className="w-4 h-4" /> GHOST_TERMINAL
+                    <span className="font-normal opacity-50">{agentSettings.kind === 'mock' ? 'MOCK' : agentSettings.model}</span>
                  </span>
-                 <button onClick={() => setIsAgentOpen(false)} className="opacity-50 hover:opacity-100">
-                    <X className="w-4 h-4" />
-                 </button>
+                 <div className="flex items-center gap-2">
+                    <button
+                       onClick={handleToggleReviewMode}
+                       className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 border transition-colors ${reviewMode ? 'bg-green-500 text-black border-green-400' : 'border-green-500/30 text-green-500/50 hover:text-green-400'}`}
+                       title="Hold agent code for approval before it runs"
+                    >
+                       <Eye className="w-3 h-3" /> REVIEW
+                    </button>
+                    <button
+                       onClick={handleClearConversation}
+                       disabled={isAgentProcessing}
+                       className="opacity-50 hover:opacity-100 disabled:opacity-20"
+                       title="Start a new conversation"
+                    >
+                       <Trash2 className="w-4 h-4" />
+                    </button>
+                    <button
+                       onClick={() => setIsAgentSettingsOpen(!isAgentSettingsOpen)}
+                       className={`opacity-50 hover:opacity-100 ${isAgentSettingsOpen ? 'opacity-100 text-green-300' : ''}`}
+                       title="Provider settings"
+                    >
+                       <Settings className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setIsAgentOpen(false)} className="opacity-50 hover:opacity-100">
+                       <X className="w-4 h-4" />
+                    </button>
+                 </div>
               </div>
 
+              {isAgentSettingsOpen && (
+                 <AgentSettingsPanel settings={agentSettings} onSave={handleSaveAgentSettings} />
+              )}
+
               <div className="flex-1 overflow-y-auto p-4 space-y-4 font-mono text-xs custom-scrollbar">
-                 {messages.map((msg, idx) => (
+                 {messages.map((msg, idx) => msg.tool ? (
+                    <ToolStep key={idx} tool={msg.tool} />
+                 ) : (
                     <div key={idx} className={`flex flex-col gap-1 ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                        <div className={`max-w-[90%] p-3 rounded-lg border ${
                           msg.role === 'user' 
@@ -501,13 +1344,13 @@ const App: React.FC = () => {
                           ? 'bg-transparent border-transparent text-green-500/50 italic'
                           : 'bg-zinc-900 border-zinc-700 text-green-400'
                        }`}>
-                          {msg.text}
+                          <span className="whitespace-pre-wrap">{msg.text}</span>
                        </div>
                     </div>
                  ))}
                  {isAgentProcessing && (
                     <div className="flex items-center gap-2 text-green-500/50 text-xs italic p-2">
-                       <Loader2 className="w-3 h-3 animate-spin" /> Processing...
+                       <Loader2 className="w-3 h-3 animate-spin" /> {proposal ? 'Waiting for your review...' : 'Processing...'}
                     </div>
                  )}
                  <div ref={messagesEndRef} />
@@ -524,19 +1367,90 @@ const App: React.FC = () => {
                        className="flex-1 bg-black border border-green-500/30 rounded px-3 py-2 text-xs text-green-400 focus:outline-none focus:border-green-500"
                        disabled={isAgentProcessing}
                     />
-                    <button 
-                       onClick={handleAgentSubmit}
-                       disabled={isAgentProcessing}
-                       className="p-2 bg-green-900/20 border border-green-500/30 rounded hover:bg-green-500 hover:text-black transition-colors disabled:opacity-50"
-                    >
-                       <Send className="w-4 h-4" />
-                    </button>
+                    {isAgentProcessing ? (
+                       <button 
+                          onClick={handleAgentCancel}
+                          title="Cancel this turn"
+                          className="p-2 bg-red-900/20 border border-red-500/30 rounded text-red-400 hover:bg-red-500 hover:text-black transition-colors"
+                       >
+                          <Square className="w-4 h-4" />
+                       </button>
+                    ) : (
+                       <button 
+                          onClick={handleAgentSubmit}
+                          className="p-2 bg-green-900/20 border border-green-500/30 rounded hover:bg-green-500 hover:text-black transition-colors"
+                       >
+                          <Send className="w-4 h-4" />
+                       </button>
+                    )}
                  </div>
               </div>
            </section>
         )}
       </main>
 
+      {/* AGENT REVIEW (shown while a proposal waits) */}
+      {proposal && (
+        <ReviewPanel proposal={proposal} onDecide={handleReviewDecision} />
+      )}
+
+      {/* PROJECTS (Collapsible) */}
+      {isProjectsOpen && (
+        <ProjectPanel
+          projects={projects}
+          current={project}
+          onOpen={handleOpenProject}
+          onCreate={handleNewProject}
+          onRename={(name) => setProject(prev => ({ ...prev, name }))}
+          onDelete={handleDeleteProject}
+          onExport={handleExportProject}
+          onImport={handleImportProject}
+          onClose={() => setIsProjectsOpen(false)}
+        />
+      )}
+
+      {/* EVALUATION HISTORY (Collapsible) */}
+      {isHistoryOpen && (
+        <HistoryPanel
+          snapshots={snapshots}
+          currentCode={(file) => project.files.find(f => f.name === file)?.content ?? ''}
+          onRestore={handleRestoreSnapshot}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* SAMPLE LIBRARY (Collapsible) */}
+      {isSamplesOpen && (
+        <SamplePanel
+          samples={samples}
+          onAdd={handleAddSamples}
+          onPreview={handlePreviewSample}
+          onDelete={handleDeleteSample}
+          onClose={() => setIsSamplesOpen(false)}
+        />
+      )}
+
+      {/* PRESET LIBRARY (Collapsible) */}
+      {isPresetsOpen && (
+        <PresetPanel
+          presets={presets}
+          onSave={handleSavePreset}
+          onApply={handleApplyPreset}
+          onRename={handleRenamePreset}
+          onSetDefault={handleSetDefaultPreset}
+          onDelete={handleDeletePreset}
+          onExport={handleExportPresets}
+          onImport={handleImportPresets}
+          onClose={() => setIsPresetsOpen(false)}
+        />
+      )}
+
+      {/* MIXER (Collapsible) */}
+      {isMixerOpen && <MixerPanel onClose={() => setIsMixerOpen(false)} />}
+
+      {/* TAKES (Collapsible) */}
+      {isTakesOpen && <TakesPanel takes={takes} onDelete={handleDeleteTake} onClose={() => setIsTakesOpen(false)} />}
+
       {/* FOOTER: CONTROLS */}
       <footer className="h-20 shrink-0 bg-zinc-950 border-t border-green-500/30 flex items-center justify-between px-8 z-20">
         <div className="flex items-center gap-4">
@@ -566,6 +1480,72 @@ const App: React.FC = () => {
                <Square className="w-4 h-4 fill-current" /> ABORT
              </span>
            </button>
+
+           <button 
+             onClick={handleToggleRecord}
+             className={`
+               px-6 py-3 border font-bold tracking-widest uppercase transition-all active:scale-95
+               ${isRecording
+                 ? 'bg-red-900/30 border-red-500 text-red-400 shadow-[0_0_20px_rgba(239,68,68,0.4)]'
+                 : 'border-red-900/50 text-red-500/70 hover:bg-red-900/20 hover:text-red-400 hover:border-red-500/50'}
+             `}
+           >
+             <span className="flex items-center gap-2">
+               <Circle className={`w-4 h-4 fill-current ${isRecording ? 'animate-pulse-fast' : ''}`} />
+               {isRecording ? `REC ${Math.floor(recordElapsed / 60)}:${String(Math.floor(recordElapsed % 60)).padStart(2, '0')}` : 'REC'}
+             </span>
+           </button>
+
+           <button 
+             onClick={handleToggleMidiCapture}
+             title={isCapturingMidi ? "Stop capture and export .mid" : "Capture played notes as MIDI"}
+             className={`flex items-center gap-2 px-4 py-3 border font-bold tracking-widest uppercase transition-all active:scale-95 ${
+               isCapturingMidi
+                 ? 'bg-green-500 text-black border-green-400 shadow-[0_0_20px_rgba(74,222,128,0.4)]'
+                 : 'border-green-500/30 text-green-500/70 hover:text-green-400 hover:border-green-500/50'
+             }`}
+           >
+             <Music className={`w-4 h-4 ${isCapturingMidi ? 'animate-pulse-fast' : ''}`} />
+             <span className="text-xs">MIDI</span>
+           </button>
+
+           <button 
+             onClick={() => setIsTakesOpen(!isTakesOpen)}
+             title="Takes"
+             className={`flex items-center gap-2 px-3 py-3 border transition-all ${isTakesOpen ? 'bg-green-500 text-black border-green-400' : 'border-green-500/30 text-green-500/70 hover:text-green-400'}`}
+           >
+             <Disc className="w-4 h-4" />
+             <span className="text-xs font-bold">{takes.length}</span>
+           </button>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs">
+           <select
+             value={bounceBars}
+             onChange={(e) => setBounceBars(parseInt(e.target.value))}
+             className="bg-black border border-green-500/30 rounded px-2 py-2 text-green-400 focus:outline-none focus:border-green-500"
+           >
+             {[1, 2, 4, 8, 16, 32].map((n) => (
+               <option key={n} value={n}>{n} BARS</option>
+             ))}
+           </select>
+           <select
+             value={bounceBitDepth}
+             onChange={(e) => setBounceBitDepth(parseInt(e.target.value) as WavBitDepth)}
+             className="bg-black border border-green-500/30 rounded px-2 py-2 text-green-400 focus:outline-none focus:border-green-500"
+           >
+             <option value={16}>16-BIT</option>
+             <option value={24}>24-BIT</option>
+           </select>
+           <button
+             onClick={handleBounce}
+             disabled={isBouncing}
+             className="px-4 py-2 border border-green-500/30 text-green-500/70 font-bold tracking-widest uppercase transition-all hover:text-green-400 hover:border-green-500/50 disabled:opacity-50"
+           >
+             <span className="flex items-center gap-2">
+               {isBouncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} BOUNCE
+             </span>
+           </button>
         </div>
 
         <div className="text-[10px] text-green-900 flex flex-col items-end">
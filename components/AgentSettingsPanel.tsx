@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { ProviderKind, ProviderSettings } from '../services/llmProvider';
+import { DEFAULT_MODELS } from '../services/agentSettings';
+
+const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'GEMINI',
+  openai: 'OPENAI-COMPATIBLE',
+  mock: 'MOCK (SCRIPTED, OFFLINE)',
+};
+
+interface AgentSettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+}
+
+const AgentSettingsPanel: React.FC<AgentSettingsPanelProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const update = (patch: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const fieldClass = "w-full bg-black border border-green-500/30 rounded px-2 py-1 text-xs text-green-400 focus:outline-none focus:border-green-500";
+
+  return (
+    <div className="p-4 space-y-3 border-b border-green-500/20 bg-zinc-900/30 text-xs">
+      <label className="block space-y-1">
+        <span className="opacity-50 text-[10px]">PROVIDER</span>
+        <select
+          value={draft.kind}
+          onChange={(e) => {
+            const kind = e.target.value as ProviderKind;
+            update({ kind, model: DEFAULT_MODELS[kind] });
+          }}
+          className={fieldClass}
+        >
+          {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map((kind) => (
+            <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+          ))}
+        </select>
+      </label>
+
+      {draft.kind === 'openai' && (
+        <label className="block space-y-1">
+          <span className="opacity-50 text-[10px]">ENDPOINT</span>
+          <input
+            value={draft.endpoint}
+            onChange={(e) => update({ endpoint: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={fieldClass}
+          />
+        </label>
+      )}
+
+      {draft.kind !== 'mock' && (
+        <>
+          <label className="block space-y-1">
+            <span className="opacity-50 text-[10px]">MODEL</span>
+            <input value={draft.model} onChange={(e) => update({ model: e.target.value })} className={fieldClass} />
+          </label>
+          <label className="block space-y-1">
+            <span className="opacity-50 text-[10px]">API KEY {draft.kind === 'openai' && '(OPTIONAL)'}</span>
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              placeholder={draft.kind === 'gemini' ? 'Uses GEMINI_API_KEY from .env.local if empty' : ''}
+              className={fieldClass}
+              autoComplete="off"
+            />
+          </label>
+          <p className="text-[10px] opacity-40">Keys are stored in this browser's localStorage only.</p>
+        </>
+      )}
+
+      <button
+        onClick={() => onSave(draft)}
+        className="flex items-center gap-1 px-3 py-1 border border-green-500/40 hover:bg-green-500 hover:text-black transition-colors"
+      >
+        <Check className="w-3 h-3" /> APPLY
+      </button>
+    </div>
+  );
+};
+
+export default AgentSettingsPanel;
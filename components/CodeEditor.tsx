@@ -0,0 +1,226 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import Editor, { BeforeMount, OnMount, loader } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { SANDBOX_DECLARATIONS } from '../services/sandboxTypes';
+import { blockAt } from '../services/codeBlocks';
+import { SourceLocation } from '../types';
+
+// Keep the runtime in step with the monaco-editor typings we build against
+loader.config({ paths: { vs: 'https://cdn.jsdelivr.net/npm/monaco-editor@0.52.2/min/vs' } });
+
+type Monaco = Parameters<BeforeMount>[0];
+
+export interface CodeEditorHandle {
+  revealLocation: (location: SourceLocation) => void;
+}
+
+interface CodeEditorProps {
+  // Model path, unique per buffer of each project: each keeps its own
+  // model, undo history and view state
+  path: string;
+  value: string;
+  onChange: (value: string) => void;
+  readOnly?: boolean;
+  // Error messages by line, shown in the gutter
+  markers: Record<number, string>;
+  onRun: () => void;
+  onStop: () => void;
+  // Evaluate part of the buffer; the position lets errors map back to it
+  onEvaluate: (code: string, start: SourceLocation) => void;
+}
+
+const MARKER_OWNER = 'sonic-shell';
+const FLASH_MS = 250;
+
+const configureMonaco: BeforeMount = (monaco) => {
+  monaco.editor.defineTheme('sonic-shell', {
+    base: 'vs-dark',
+    inherit: true,
+    rules: [
+      { token: '', foreground: '4ade80' },
+      { token: 'comment', foreground: '166534', fontStyle: 'italic' },
+      { token: 'keyword', foreground: '86efac', fontStyle: 'bold' },
+      { token: 'string', foreground: 'facc15' },
+      { token: 'number', foreground: '22d3ee' },
+      { token: 'delimiter', foreground: '15803d' },
+    ],
+    colors: {
+      'editor.background': '#050505',
+      'editor.foreground': '#4ade80',
+      'editor.lineHighlightBackground': '#0f1f14',
+      'editor.selectionBackground': '#14532d',
+      'editorCursor.foreground': '#4ade80',
+      'editorLineNumber.foreground': '#14532d',
+      'editorLineNumber.activeForeground': '#4ade80',
+      'editorBracketMatch.border': '#4ade80',
+      'editorIndentGuide.background1': '#0f1f14',
+      'editorSuggestWidget.background': '#0a0a0a',
+      'editorSuggestWidget.border': '#14532d',
+      'editorSuggestWidget.selectedBackground': '#14532d',
+      'editorHoverWidget.background': '#0a0a0a',
+      'editorHoverWidget.border': '#14532d',
+    },
+  });
+
+  // Sketches are plain JS; the sandbox globals come from a declaration file
+  const defaults = monaco.languages.typescript.javascriptDefaults;
+  defaults.setCompilerOptions({
+    target: monaco.languages.typescript.ScriptTarget.ES2020,
+    lib: ['es2020'],
+    allowNonTsExtensions: true,
+    allowJs: true,
+  });
+  defaults.setDiagnosticsOptions({ noSemanticValidation: true, noSyntaxValidation: false });
+  defaults.setExtraLibs([{ content: SANDBOX_DECLARATIONS, filePath: 'ts:sonic-shell/sandbox.d.ts' }]);
+};
+
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ path, value, onChange, readOnly = false, markers, onRun, onStop, onEvaluate }, ref) => {
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const gutterRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+
+  // Editor actions are registered once; route them to the latest handlers
+  const handlers = useRef({ onRun, onStop, onEvaluate });
+  handlers.current = { onRun, onStop, onEvaluate };
+
+  useImperativeHandle(ref, () => ({
+    revealLocation: (location) => {
+      const instance = editorRef.current;
+      if (!instance) return;
+      const position = { lineNumber: location.line, column: location.column };
+      instance.setPosition(position);
+      instance.revealPositionInCenter(position);
+      instance.focus();
+    },
+  }), []);
+
+  // Briefly highlight what was just sent to the engine
+  const flash = (range: editor.IModelDecoration['range']) => {
+    const collection = editorRef.current?.createDecorationsCollection([
+      { range, options: { className: 'sonic-eval-flash', isWholeLine: false } },
+    ]);
+    setTimeout(() => collection?.clear(), FLASH_MS);
+  };
+
+  const evaluateRange = (range: editor.IModelDecoration['range']) => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+    const code = model.getValueInRange(range);
+    if (code.trim() === '') return;
+    flash(range);
+    handlers.current.onEvaluate(code, { line: range.startLineNumber, column: range.startColumn });
+  };
+
+  const evaluateBlock = () => {
+    const instance = editorRef.current;
+    const model = instance?.getModel();
+    const position = instance?.getPosition();
+    const monaco = monacoRef.current;
+    if (!model || !position || !monaco) return;
+    const block = blockAt(model.getValue(), model.getOffsetAt(position));
+    const start = model.getPositionAt(block.start);
+    const end = model.getPositionAt(block.end);
+    evaluateRange(new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column));
+  };
+
+  const handleMount: OnMount = (instance, monaco) => {
+    editorRef.current = instance;
+    monacoRef.current = monaco;
+    gutterRef.current = instance.createDecorationsCollection();
+
+    const { KeyMod, KeyCode } = monaco;
+    instance.addAction({
+      id: 'sonic.run',
+      label: 'Run Buffer',
+      keybindings: [KeyMod.CtrlCmd | KeyCode.Enter],
+      contextMenuGroupId: 'navigation',
+      run: () => handlers.current.onRun(),
+    });
+    instance.addAction({
+      id: 'sonic.evaluateSelection',
+      label: 'Evaluate Selection',
+      keybindings: [KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.Enter],
+      contextMenuGroupId: 'navigation',
+      run: () => {
+        const selection = instance.getSelection();
+        if (!selection || selection.isEmpty()) evaluateBlock();
+        else evaluateRange(selection);
+      },
+    });
+    instance.addAction({
+      id: 'sonic.evaluateBlock',
+      label: 'Evaluate Current Block',
+      keybindings: [KeyMod.Alt | KeyCode.Enter],
+      contextMenuGroupId: 'navigation',
+      run: evaluateBlock,
+    });
+    instance.addAction({
+      id: 'sonic.stop',
+      label: 'Stop',
+      keybindings: [KeyMod.CtrlCmd | KeyCode.Period],
+      run: () => handlers.current.onStop(),
+    });
+    setIsMounted(true);
+  };
+
+  // Mirror error markers into squiggles and gutter glyphs
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    const lines = Object.entries(markers)
+      .map(([line, message]) => ({ line: Math.min(Number(line), model.getLineCount()), message }));
+
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, lines.map(({ line, message }) => ({
+      severity: monaco.MarkerSeverity.Error,
+      message,
+      startLineNumber: line,
+      startColumn: model.getLineFirstNonWhitespaceColumn(line) || 1,
+      endLineNumber: line,
+      endColumn: model.getLineMaxColumn(line),
+    })));
+    gutterRef.current?.set(lines.map(({ line, message }) => ({
+      range: new monaco.Range(line, 1, line, 1),
+      options: {
+        isWholeLine: true,
+        glyphMarginClassName: 'sonic-error-glyph',
+        glyphMarginHoverMessage: { value: message },
+        className: 'sonic-error-line',
+      },
+    })));
+  }, [markers, isMounted, path]);
+
+  return (
+    <Editor
+      path={path}
+      value={value}
+      onChange={(next) => onChange(next ?? '')}
+      language="javascript"
+      theme="sonic-shell"
+      beforeMount={configureMonaco}
+      onMount={handleMount}
+      loading={<div className="text-green-500/50 text-xs p-6">Loading editor...</div>}
+      options={{
+        readOnly,
+        fontFamily: '"Fira Code", monospace',
+        fontSize: 14,
+        lineHeight: 22,
+        fontLigatures: true,
+        minimap: { enabled: false },
+        glyphMargin: true,
+        scrollBeyondLastLine: false,
+        automaticLayout: true,
+        tabSize: 2,
+        padding: { top: 24 },
+        renderLineHighlight: 'line',
+        bracketPairColorization: { enabled: true },
+        matchBrackets: 'always',
+        autoIndent: 'full',
+        formatOnPaste: false,
+      }}
+    />
+  );
+});
+
+export default CodeEditor;
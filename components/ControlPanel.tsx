@@ -0,0 +1,142 @@
+import React, { useRef } from 'react';
+import { Gauge } from 'lucide-react';
+import { ControlInfo } from '../types';
+
+type Knob = Extract<ControlInfo, { kind: 'knob' }>;
+type XY = Extract<ControlInfo, { kind: 'xy' }>;
+
+interface ControlPanelProps {
+  controls: ControlInfo[];
+  onChange: (name: string, value: ControlInfo['value']) => void;
+}
+
+// Pixels of vertical drag for a knob's full travel
+const KNOB_TRAVEL = 150;
+
+// Knob travel as 0..1, following its curve
+const toPosition = ({ min, max, curve }: Knob, value: number) =>
+  curve === 'exp' ? Math.log(value / min) / Math.log(max / min) : (value - min) / (max - min);
+
+const fromPosition = ({ min, max, curve }: Knob, position: number) => {
+  const p = Math.min(1, Math.max(0, position));
+  return curve === 'exp' ? min * Math.pow(max / min, p) : min + p * (max - min);
+};
+
+const formatValue = (value: number) => Math.abs(value) >= 100 ? String(Math.round(value)) : value.toFixed(2);
+
+const KnobControl: React.FC<{ knob: Knob; onChange: (value: number) => void }> = ({ knob, onChange }) => {
+  const drag = useRef<{ y: number; position: number } | null>(null);
+  const position = toPosition(knob, knob.value);
+
+  // 270 degree sweep starting bottom left
+  const angle = -135 + position * 270;
+  const point = (degrees: number): [number, number] => {
+    const radians = ((degrees - 90) * Math.PI) / 180;
+    return [20 + 15 * Math.cos(radians), 20 + 15 * Math.sin(radians)];
+  };
+  const arc = (degrees: number) => point(degrees).join(' ');
+  const [tipX, tipY] = point(angle);
+
+  return (
+    <div className="flex flex-col items-center gap-1 w-14 shrink-0" title={`knob("${knob.name}") ${knob.min}..${knob.max}, double-click to reset`}>
+      <svg
+        width="40"
+        height="40"
+        className="cursor-ns-resize touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          drag.current = { y: e.clientY, position };
+        }}
+        onPointerMove={(e) => {
+          if (!drag.current) return;
+          onChange(fromPosition(knob, drag.current.position + (drag.current.y - e.clientY) / KNOB_TRAVEL));
+        }}
+        onPointerUp={() => { drag.current = null; }}
+        onDoubleClick={() => onChange(knob.default)}
+      >
+        <path d={`M ${arc(-135)} A 15 15 0 1 1 ${arc(135)}`} fill="none" stroke="currentColor" strokeOpacity="0.2" strokeWidth="3" />
+        {position > 0.001 && (
+          <path d={`M ${arc(-135)} A 15 15 0 ${angle + 135 > 180 ? 1 : 0} 1 ${arc(angle)}`} fill="none" stroke="currentColor" strokeWidth="3" />
+        )}
+        <line x1="20" y1="20" x2={tipX} y2={tipY} stroke="currentColor" strokeWidth="2" />
+      </svg>
+      <span className="text-[10px] tabular-nums">{formatValue(knob.value)}</span>
+      <span className="text-[9px] opacity-50 truncate max-w-full">{knob.name}</span>
+    </div>
+  );
+};
+
+const XYControl: React.FC<{ pad: XY; onChange: (value: [number, number]) => void }> = ({ pad, onChange }) => {
+  const dragging = useRef<boolean>(false);
+  const [[xMin, xMax], [yMin, yMax]] = [pad.x, pad.y];
+  const px = (pad.value[0] - xMin) / (xMax - xMin);
+  const py = (pad.value[1] - yMin) / (yMax - yMin);
+
+  const update = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const fy = 1 - (e.clientY - rect.top) / rect.height;
+    onChange([xMin + fx * (xMax - xMin), yMin + fy * (yMax - yMin)]);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1 shrink-0" title={`xy("${pad.name}"), double-click to reset`}>
+      <div
+        className="relative w-16 h-16 border border-green-500/40 bg-green-900/10 cursor-crosshair touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragging.current = true;
+          update(e);
+        }}
+        onPointerMove={(e) => { if (dragging.current) update(e); }}
+        onPointerUp={() => { dragging.current = false; }}
+        onDoubleClick={() => onChange(pad.default)}
+      >
+        <div className="absolute w-2 h-2 -ml-1 -mb-1 rounded-full bg-green-400 shadow-[0_0_6px_rgba(74,222,128,0.8)]" style={{ left: `${px * 100}%`, bottom: `${py * 100}%` }} />
+      </div>
+      <span className="text-[10px] tabular-nums">{formatValue(pad.value[0])}, {formatValue(pad.value[1])}</span>
+      <span className="text-[9px] opacity-50 truncate max-w-16">{pad.name}</span>
+    </div>
+  );
+};
+
+// Knobs, toggles and XY pads the running sketch declared
+const ControlPanel: React.FC<ControlPanelProps> = ({ controls, onChange }) => {
+  if (controls.length === 0) return null;
+
+  return (
+    <div className="flex flex-col border-b border-green-500/30 bg-[#0a0a0a] shrink-0">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-green-500/20 bg-zinc-900/50 shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <Gauge className="w-3 h-3" /> CONTROLS
+        </span>
+        <span className="text-[10px] opacity-40">{controls.length} LIVE</span>
+      </div>
+
+      <div className="flex items-start gap-3 p-3 overflow-x-auto font-mono text-green-400 custom-scrollbar">
+        {controls.map((control) => {
+          switch (control.kind) {
+            case 'knob':
+              return <KnobControl key={control.name} knob={control} onChange={(value) => onChange(control.name, value)} />;
+            case 'xy':
+              return <XYControl key={control.name} pad={control} onChange={(value) => onChange(control.name, value)} />;
+            case 'toggle':
+              return (
+                <div key={control.name} className="flex flex-col items-center gap-1 w-14 shrink-0" title={`toggle("${control.name}")`}>
+                  <button
+                    onClick={() => onChange(control.name, !control.value)}
+                    className={`w-10 h-10 border text-[10px] font-bold transition-colors ${control.value ? 'bg-green-500 text-black border-green-400' : 'border-green-500/30 text-green-500/50 hover:text-green-400'}`}
+                  >
+                    {control.value ? 'ON' : 'OFF'}
+                  </button>
+                  <span className="text-[9px] opacity-50 truncate max-w-full">{control.name}</span>
+                </div>
+              );
+          }
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ControlPanel;
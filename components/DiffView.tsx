@@ -0,0 +1,27 @@
+import React from 'react';
+import { DiffRow } from '../services/lineDiff';
+
+interface DiffViewProps {
+  rows: DiffRow[];
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ rows }) => (
+  <pre className="flex-1 overflow-auto p-2 text-xs leading-relaxed custom-scrollbar">
+    {rows.map((row, i) => row.type === 'fold' ? (
+      <div key={i} className="text-green-500/30 italic px-2">··· {row.count} unchanged lines</div>
+    ) : (
+      <div
+        key={i}
+        className={`px-2 whitespace-pre ${
+          row.type === 'add' ? 'bg-green-900/30 text-green-300' :
+          row.type === 'remove' ? 'bg-red-900/20 text-red-400/80' :
+          'text-green-500/50'
+        }`}
+      >
+        {row.type === 'add' ? '+ ' : row.type === 'remove' ? '- ' : '  '}{row.text}
+      </div>
+    ))}
+  </pre>
+);
+
+export default DiffView;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Terminal, Plus, X } from 'lucide-react';
+import { ProjectFile } from '../types';
+
+interface FileTabsProps {
+  files: ProjectFile[];
+  activeFile: string;
+  onSelect: (name: string) => void;
+  onCreate: () => void;
+  // Returns an error message when the name is rejected
+  onRename: (from: string, to: string) => string | null;
+  onDelete: (name: string) => void;
+}
+
+const FileTabs: React.FC<FileTabsProps> = ({ files, activeFile, onSelect, onCreate, onRename, onDelete }) => {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [draft, setDraft] = useState<string>("");
+  const [renameError, setRenameError] = useState<string | null>(null);
+
+  const startRename = (name: string) => {
+    setRenaming(name);
+    setDraft(name);
+    setRenameError(null);
+  };
+
+  const commitRename = () => {
+    if (renaming === null) return;
+    if (draft.trim() === '' || draft === renaming) {
+      setRenaming(null);
+      return;
+    }
+    const error = onRename(renaming, draft);
+    if (error) {
+      setRenameError(error);
+    } else {
+      setRenaming(null);
+    }
+  };
+
+  return (
+    <div className="flex items-stretch min-w-0 overflow-x-auto custom-scrollbar">
+      {files.map((file) => {
+        const isActive = file.name === activeFile;
+        return (
+          <div
+            key={file.name}
+            onClick={() => onSelect(file.name)}
+            onDoubleClick={() => startRename(file.name)}
+            title="Double-click to rename"
+            className={`group flex items-center gap-2 px-3 py-2 border-r border-green-500/20 cursor-pointer shrink-0 ${
+              isActive ? 'bg-[#050505] text-green-400' : 'text-green-500/50 hover:text-green-400'
+            }`}
+          >
+            <Terminal className="w-3 h-3" />
+            {renaming === file.name ? (
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => { setDraft(e.target.value); setRenameError(null); }}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+                title={renameError ?? undefined}
+                className={`w-28 bg-black border px-1 outline-none ${renameError ? 'border-red-500 text-red-400' : 'border-green-500/50'}`}
+              />
+            ) : (
+              <span>{file.name.toUpperCase()}</span>
+            )}
+            {files.length > 1 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(file.name); }}
+                title="Delete buffer"
+                className="opacity-0 group-hover:opacity-50 hover:!opacity-100 hover:text-red-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={onCreate}
+        title="New buffer"
+        className="px-3 opacity-50 hover:opacity-100 shrink-0"
+      >
+        <Plus className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default FileTabs;
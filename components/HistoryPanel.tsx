@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { History, Bot, User, RotateCcw, X } from 'lucide-react';
+import { Snapshot } from '../types';
+import { diffLines, foldUnchanged } from '../services/lineDiff';
+import DiffView from './DiffView';
+
+interface HistoryPanelProps {
+  snapshots: Snapshot[];
+  // Content of the buffer each snapshot would replace, by file
+  currentCode: (file: string) => string;
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ snapshots, currentCode, onRestore, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = snapshots.find((s) => s.id === selectedId) ?? snapshots[0];
+  const current = selected ? currentCode(selected.file) : '';
+
+  const rows = useMemo(
+    () => selected ? foldUnchanged(diffLines(current, selected.code)) : [],
+    [selected, current]
+  );
+  const unchanged = rows.every((row) => row.type === 'same' || row.type === 'fold');
+
+  return (
+    <section className="h-64 shrink-0 border-t border-green-500/30 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-zinc-900/50 border-b border-green-500/20 flex items-center justify-between shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <History className="w-3 h-3" /> HISTORY
+          <span className="font-normal opacity-50">{snapshots.length} RUNS</span>
+        </span>
+        <button onClick={onClose} className="opacity-50 hover:opacity-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="w-72 shrink-0 overflow-y-auto border-r border-green-500/20 p-2 font-mono text-xs space-y-1 custom-scrollbar">
+          {snapshots.length === 0 && (
+            <div className="px-2 py-1 text-green-500/30 italic">Every EXECUTE_ lands here.</div>
+          )}
+          {snapshots.map((snapshot) => (
+            <button
+              key={snapshot.id}
+              onClick={() => setSelectedId(snapshot.id)}
+              title={snapshot.error}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded border text-left ${
+                snapshot.id === selected?.id ? 'border-green-500/60 bg-green-900/20' : 'border-green-900/30 hover:border-green-500/40'
+              }`}
+            >
+              <span className="opacity-30 shrink-0">[{snapshot.timestamp}]</span>
+              {snapshot.source === 'ghost'
+                ? <Bot className="w-3 h-3 shrink-0" />
+                : <User className="w-3 h-3 shrink-0" />}
+              <span className="flex-1 truncate opacity-70">{snapshot.file.toUpperCase()}</span>
+              <span className="opacity-40 shrink-0">{snapshot.bpm}</span>
+              <span className={`shrink-0 text-[10px] font-bold ${snapshot.success ? 'text-green-400' : 'text-red-400'}`}>
+                {snapshot.success ? 'OK' : 'ERR'}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          {selected && (
+            <>
+              <div className="px-4 py-1 flex items-center justify-between text-[10px] border-b border-green-500/10 shrink-0">
+                <span className="opacity-50">
+                  {unchanged ? 'SAME AS CURRENT BUFFER' : `CURRENT ${selected.file.toUpperCase()} → SNAPSHOT ${selected.timestamp}`}
+                </span>
+                <button
+                  onClick={() => onRestore(selected)}
+                  className="flex items-center gap-1 px-2 py-0.5 border border-green-500/40 hover:bg-green-500 hover:text-black transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" /> RESTORE & RUN
+                </button>
+              </div>
+              {selected.error && (
+                <div className="px-4 py-1 text-[10px] text-red-400 border-b border-red-900/30 shrink-0 truncate">{selected.error}</div>
+              )}
+              <DiffView rows={rows} />
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default HistoryPanel;
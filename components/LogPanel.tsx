@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Zap, Trash2, Download } from 'lucide-react';
+import { LogEntry, SourceLocation } from '../types';
+import { LEVELS, LOG_SIZES, LogThreshold, severity } from '../services/kernelLog';
+import { formatLocation } from '../services/diagnostics';
+
+interface LogPanelProps {
+  logs: LogEntry[];
+  capacity: number;
+  onCapacityChange: (size: number) => void;
+  onClear: () => void;
+  // Exports what the filters currently show
+  onExport: (entries: LogEntry[], format: 'json' | 'txt') => void;
+  onJump: (location: SourceLocation) => void;
+}
+
+// Rows kept in the DOM; the rest of the buffer is still filtered and exported
+const RENDERED_ROWS = 500;
+
+const selectClass = "bg-black border border-green-500/30 rounded px-1 py-0.5 text-[10px] text-green-400 focus:outline-none focus:border-green-500";
+
+const levelClass = (type: LogEntry['type']) => {
+  switch (type) {
+    case 'error': return 'text-red-400';
+    case 'warn': return 'text-yellow-400';
+    case 'success': return 'text-green-300 font-bold';
+    case 'system': return 'text-green-600 italic';
+    case 'debug': return 'text-green-700';
+    default: return 'text-green-400/80';
+  }
+};
+
+// Shell, engine and sketch output, filtered by text and minimum level
+const LogPanel: React.FC<LogPanelProps> = ({ logs, capacity, onCapacityChange, onClear, onExport, onJump }) => {
+  const [query, setQuery] = useState<string>('');
+  const [threshold, setThreshold] = useState<LogThreshold>('debug');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const minimum = severity(threshold);
+    return logs.filter((log) =>
+      severity(log.type) >= minimum &&
+      (!needle || log.message.toLowerCase().includes(needle) || !!log.source?.toLowerCase().includes(needle))
+    );
+  }, [logs, query, threshold]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [visible]);
+
+  const hidden = visible.length - RENDERED_ROWS;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-[#0a0a0a]">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-green-500/20 bg-zinc-900/50 shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2 shrink-0">
+          <Zap className="w-3 h-3" /> KERNEL_LOG
+        </span>
+        <div className="flex items-center gap-2 min-w-0">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="filter"
+            className="w-24 min-w-0 bg-black border border-green-500/30 px-2 py-0.5 text-[10px] outline-none focus:border-green-400 placeholder:text-green-900"
+          />
+          <select value={threshold} onChange={(e) => setThreshold(e.target.value as LogThreshold)} title="Minimum level" className={selectClass}>
+            {LEVELS.map((level) => <option key={level} value={level}>{level === 'debug' ? 'ALL' : `${level.toUpperCase()}+`}</option>)}
+          </select>
+          <select value={capacity} onChange={(e) => onCapacityChange(Number(e.target.value))} title="Entries kept" className={selectClass}>
+            {LOG_SIZES.map((size) => <option key={size} value={size}>KEEP {size}</option>)}
+          </select>
+          <button
+            onClick={() => onExport(visible, 'json')}
+            disabled={visible.length === 0}
+            title="Export shown entries as JSON"
+            className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100 disabled:opacity-20"
+          >
+            <Download className="w-3 h-3" /> JSON
+          </button>
+          <button
+            onClick={() => onExport(visible, 'txt')}
+            disabled={visible.length === 0}
+            title="Export shown entries as text"
+            className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100 disabled:opacity-20"
+          >
+            <Download className="w-3 h-3" /> TXT
+          </button>
+          <button onClick={onClear} title="Clear" className="hover:text-white transition-colors">
+            <Trash2 className="w-3 h-3 opacity-50" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 font-mono text-xs space-y-1 custom-scrollbar">
+        {hidden > 0 && (
+          <div className="text-green-500/30 italic">{hidden} earlier entries not shown. Export to see them all.</div>
+        )}
+        {visible.slice(-RENDERED_ROWS).map((log) => (
+          <div key={log.id} className={`flex gap-3 ${levelClass(log.type)}`}>
+            <span className="opacity-30 shrink-0">[{log.timestamp}]</span>
+            <span className="break-all">
+              {log.source && <span className="mr-2 opacity-50">[{log.source}]</span>}
+              {log.message}
+              {log.location && (
+                <button
+                  onClick={() => onJump(log.location!)}
+                  className="ml-2 underline decoration-dotted hover:text-red-200"
+                  title="Jump to line"
+                >
+                  {formatLocation(log.location)}
+                </button>
+              )}
+              {log.count && log.count > 1 && (
+                <span className="ml-2 px-1 border border-current opacity-70 text-[10px]">x{log.count}</span>
+              )}
+            </span>
+          </div>
+        ))}
+        {logs.length > 0 && visible.length === 0 && (
+          <div className="text-green-500/30 italic">No entries match the filter.</div>
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+};
+
+export default LogPanel;
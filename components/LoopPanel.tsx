@@ -0,0 +1,70 @@
+import React from 'react';
+import { Repeat, VolumeX, Headphones, X } from 'lucide-react';
+import { LoopInfo } from '../types';
+
+interface LoopPanelProps {
+  loops: LoopInfo[];
+  onToggleMute: (name: string) => void;
+  onToggleSolo: (name: string) => void;
+  onKill: (name: string) => void;
+}
+
+const LoopPanel: React.FC<LoopPanelProps> = ({ loops, onToggleMute, onToggleSolo, onKill }) => {
+  return (
+    <div className="flex flex-col max-h-48 border-b border-green-500/30 bg-[#0a0a0a] shrink-0">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-green-500/20 bg-zinc-900/50 shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <Repeat className="w-3 h-3" /> LOOP_RACK
+        </span>
+        <span className="text-[10px] opacity-40">{loops.length} ACTIVE</span>
+      </div>
+
+      <div className="overflow-y-auto p-2 font-mono text-xs space-y-1 custom-scrollbar">
+        {loops.length === 0 && (
+          <div className="px-2 py-1 text-green-500/30 italic">No loops scheduled.</div>
+        )}
+        {loops.map((loop) => (
+          <div
+            key={loop.name}
+            title={loop.lastError}
+            className={`flex items-center gap-2 px-2 py-1 rounded border ${
+              loop.state === 'error' || loop.state === 'disabled' ? 'border-red-900/50' : 'border-green-900/30'
+            } ${loop.audible ? '' : 'opacity-40'}`}
+          >
+            <span className={`w-2 h-2 rounded-full shrink-0 ${
+              loop.state === 'disabled' ? 'bg-red-900' :
+              loop.state === 'error' ? 'bg-red-500' :
+              loop.state === 'pending' ? 'bg-green-900' :
+              loop.audible ? 'bg-green-400 animate-pulse-fast' : 'bg-green-800'
+            }`} />
+            <span className={`flex-1 truncate ${loop.state === 'disabled' ? 'line-through text-red-400/70' : ''}`}>{loop.name}</span>
+            <span className="opacity-40">{loop.interval}</span>
+            <button
+              onClick={() => onToggleMute(loop.name)}
+              title="Mute"
+              className={`p-1 rounded transition-colors ${loop.muted ? 'bg-red-900/40 text-red-400' : 'opacity-50 hover:opacity-100'}`}
+            >
+              <VolumeX className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onToggleSolo(loop.name)}
+              title="Solo"
+              className={`p-1 rounded transition-colors ${loop.soloed ? 'bg-green-500 text-black' : 'opacity-50 hover:opacity-100'}`}
+            >
+              <Headphones className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onKill(loop.name)}
+              title="Kill"
+              className="p-1 rounded opacity-50 hover:opacity-100 hover:text-red-400 transition-colors"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LoopPanel;
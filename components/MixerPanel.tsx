@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersVertical, X } from 'lucide-react';
+import { audioService } from '../services/audioEngine';
+import { ChannelInfo } from '../types';
+
+const MIN_DB = -60;
+const MAX_DB = 6;
+
+// Map a dB reading onto 0-100% of the meter height
+const levelToPercent = (db: number) => {
+  if (!isFinite(db)) return 0;
+  return Math.min(100, Math.max(0, ((db - MIN_DB) / (MAX_DB - MIN_DB)) * 100));
+};
+
+interface MixerPanelProps {
+  onClose: () => void;
+}
+
+const MixerPanel: React.FC<MixerPanelProps> = ({ onClose }) => {
+  const [channels, setChannels] = useState<ChannelInfo[]>([]);
+
+  // Poll the engine so meters move and changes made from code show up
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      setChannels(audioService.mixer?.snapshot() ?? []);
+    }, 50);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const mixer = audioService.mixer;
+
+  return (
+    <section className="h-56 shrink-0 border-t border-green-500/30 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-zinc-900/50 border-b border-green-500/20 flex items-center justify-between shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <SlidersVertical className="w-3 h-3" /> MIXER
+        </span>
+        <button onClick={onClose} className="opacity-50 hover:opacity-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex gap-2 p-3 overflow-x-auto custom-scrollbar">
+        {channels.length === 0 && (
+          <div className="text-xs text-green-500/30 italic self-center mx-auto">Audio engine offline. EXECUTE_ to bring channels up.</div>
+        )}
+        {channels.map((ch) => (
+          <div
+            key={ch.name}
+            className={`w-20 shrink-0 flex flex-col items-center gap-1 p-2 rounded border text-[10px] ${
+              ch.name === 'master' ? 'border-green-500/40 bg-green-900/10 ml-auto' : 'border-green-900/40'
+            }`}
+          >
+            <span className="font-bold tracking-widest uppercase truncate w-full text-center">{ch.name}</span>
+
+            <div className="flex-1 flex items-stretch gap-2 min-h-0">
+              <input
+                type="range"
+                min={MIN_DB}
+                max={MAX_DB}
+                step={0.5}
+                value={Math.max(MIN_DB, ch.volume)}
+                onChange={(e) => mixer?.setVolume(ch.name, parseFloat(e.target.value))}
+                style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                className="w-3 accent-green-500 cursor-pointer"
+              />
+              <div className="w-1.5 bg-zinc-900 rounded relative overflow-hidden">
+                <div
+                  className={`absolute bottom-0 left-0 right-0 ${ch.level > -3 ? 'bg-red-500' : 'bg-green-400'}`}
+                  style={{ height: `${levelToPercent(ch.level)}%` }}
+                />
+              </div>
+            </div>
+
+            <span className="opacity-60">{ch.volume.toFixed(1)} dB</span>
+
+            {ch.name !== 'master' && (
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.05}
+                value={ch.pan}
+                onChange={(e) => mixer?.setPan(ch.name, parseFloat(e.target.value))}
+                onDoubleClick={() => mixer?.setPan(ch.name, 0)}
+                title={`Pan ${ch.pan.toFixed(2)}`}
+                className="w-full h-1 accent-green-500 cursor-pointer"
+              />
+            )}
+
+            <div className="flex gap-1">
+              <button
+                onClick={() => mixer?.setMute(ch.name, !ch.mute)}
+                className={`px-1.5 py-0.5 rounded border ${ch.mute ? 'bg-red-900/40 border-red-500/50 text-red-400' : 'border-green-900/50 opacity-60 hover:opacity-100'}`}
+              >
+                M
+              </button>
+              {!ch.soloSafe && (
+                <button
+                  onClick={() => mixer?.setSolo(ch.name, !ch.solo)}
+                  className={`px-1.5 py-0.5 rounded border ${ch.solo ? 'bg-green-500 border-green-400 text-black' : 'border-green-900/50 opacity-60 hover:opacity-100'}`}
+                >
+                  S
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default MixerPanel;
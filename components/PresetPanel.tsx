@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Piano, Download, Upload, Save, Trash2, X } from 'lucide-react';
+import { audioService } from '../services/audioEngine';
+import { defaultTargets } from '../services/presetLibrary';
+import { InstrumentInfo, InstrumentPreset } from '../types';
+
+interface PresetPanelProps {
+  presets: InstrumentPreset[];
+  onSave: (instrument: string, name: string) => void;
+  onApply: (preset: string, instrument: string) => void;
+  // Returns an error message, or null when the rename went through
+  onRename: (from: string, to: string) => Promise<string | null>;
+  onSetDefault: (preset: string, voice: string | undefined) => void;
+  onDelete: (name: string) => void;
+  onExport: (presets: InstrumentPreset[]) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+interface PresetRowProps {
+  preset: InstrumentPreset;
+  instruments: InstrumentInfo[];
+  onApply: PresetPanelProps['onApply'];
+  onRename: PresetPanelProps['onRename'];
+  onSetDefault: PresetPanelProps['onSetDefault'];
+  onDelete: PresetPanelProps['onDelete'];
+  onExport: PresetPanelProps['onExport'];
+}
+
+const selectClass = "bg-black border border-green-500/30 rounded px-1 py-0.5 text-[10px] text-green-400 focus:outline-none focus:border-green-500";
+
+const PresetRow: React.FC<PresetRowProps> = ({ preset, instruments, onApply, onRename, onSetDefault, onDelete, onExport }) => {
+  const [name, setName] = useState<string>(preset.name);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setName(preset.name), [preset.name]);
+
+  const commitRename = async () => {
+    if (name === preset.name) return;
+    const problem = await onRename(preset.name, name);
+    setError(problem);
+    if (problem) setName(preset.name);
+  };
+
+  const targets = instruments.filter((instrument) => instrument.type === preset.type);
+
+  return (
+    <div className={`flex items-center gap-2 px-2 py-1 rounded border ${preset.defaultFor ? 'border-green-500/60 bg-green-900/20' : 'border-green-900/30'}`}>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        title={error ?? `instrument("name", "${preset.type}", "${preset.name}")`}
+        className={`flex-1 min-w-0 bg-transparent border-b outline-none ${error ? 'border-red-500/60' : 'border-transparent focus:border-green-500/60'}`}
+      />
+      <span className="opacity-40 shrink-0 uppercase">{preset.type}</span>
+      <select
+        value=""
+        onChange={(e) => onApply(preset.name, e.target.value)}
+        disabled={targets.length === 0}
+        title={targets.length === 0 ? `No ${preset.type} instrument running` : 'Load onto a running instrument'}
+        className={selectClass}
+      >
+        <option value="" disabled>LOAD</option>
+        {targets.map((instrument) => <option key={instrument.name} value={instrument.name}>{instrument.name}</option>)}
+      </select>
+      {defaultTargets(preset.type).length > 0 && (
+        <select
+          value={preset.defaultFor ?? ''}
+          onChange={(e) => onSetDefault(preset.name, e.target.value || undefined)}
+          title="Replace a built-in voice with this preset"
+          className={selectClass}
+        >
+          <option value="">NO DEFAULT</option>
+          {defaultTargets(preset.type).map((voice) => <option key={voice} value={voice}>DEFAULT {voice.toUpperCase()}</option>)}
+        </select>
+      )}
+      <button onClick={() => onExport([preset])} title="Export" className="p-1 opacity-50 hover:opacity-100 transition-opacity">
+        <Download className="w-3 h-3" />
+      </button>
+      <button onClick={() => onDelete(preset.name)} title="Delete" className="p-1 opacity-50 hover:opacity-100 hover:text-red-400 transition-colors">
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+// Saved instrument settings: capture a running voice, load a preset onto
+// one, or make it the default for a built-in
+const PresetPanel: React.FC<PresetPanelProps> = ({ presets, onSave, onApply, onRename, onSetDefault, onDelete, onExport, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [instruments, setInstruments] = useState<InstrumentInfo[]>([]);
+  const [source, setSource] = useState<string>('synth');
+  const [name, setName] = useState<string>('');
+
+  // Poll the engine so voices declared by a run show up
+  useEffect(() => {
+    const update = () => setInstruments(audioService.instruments?.list() ?? []);
+    update();
+    const id = window.setInterval(update, 500);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const handleSave = () => {
+    if (!name.trim() || !instruments.some((instrument) => instrument.name === source)) return;
+    onSave(source, name.trim());
+    setName('');
+  };
+
+  return (
+    <section className="max-h-56 shrink-0 border-t border-green-500/30 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-zinc-900/50 border-b border-green-500/20 flex items-center justify-between shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <Piano className="w-3 h-3" /> PRESETS
+          <span className="font-normal opacity-50">{presets.length} SAVED</span>
+        </span>
+        <div className="flex items-center gap-3">
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            disabled={instruments.length === 0}
+            title="Instrument to save"
+            className={selectClass}
+          >
+            {instruments.length === 0 && <option value={source}>ENGINE OFFLINE</option>}
+            {instruments.map((instrument) => <option key={instrument.name} value={instrument.name}>{instrument.name}</option>)}
+          </select>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            placeholder="preset name"
+            className="w-32 bg-black border border-green-500/30 px-2 py-0.5 text-[10px] outline-none focus:border-green-400 placeholder:text-green-900"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || instruments.length === 0}
+            className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100 disabled:opacity-20"
+          >
+            <Save className="w-3 h-3" /> SAVE
+          </button>
+          <button
+            onClick={() => onExport(presets)}
+            disabled={presets.length === 0}
+            className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100 disabled:opacity-20"
+          >
+            <Download className="w-3 h-3" /> EXPORT
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100">
+            <Upload className="w-3 h-3" /> IMPORT
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onClose} className="opacity-50 hover:opacity-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 font-mono text-xs grid grid-cols-1 lg:grid-cols-2 gap-1 content-start custom-scrollbar">
+        {presets.length === 0 && (
+          <div className="col-span-full px-2 py-2 text-green-500/30 italic">
+            Save a running instrument's settings here. Use them with instrument("lead", "fm", "preset name"), or make one the default for a built-in voice.
+          </div>
+        )}
+        {presets.map((preset) => (
+          <PresetRow
+            key={preset.name}
+            preset={preset}
+            instruments={instruments}
+            onApply={onApply}
+            onRename={onRename}
+            onSetDefault={onSetDefault}
+            onDelete={onDelete}
+            onExport={onExport}
+          />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,93 @@
+import React, { useRef } from 'react';
+import { FolderOpen, Download, Upload, Plus, Trash2, X } from 'lucide-react';
+import { Project } from '../types';
+
+interface ProjectPanelProps {
+  projects: Project[];
+  current: Project;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({ projects, current, onOpen, onCreate, onRename, onDelete, onExport, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <section className="max-h-56 shrink-0 border-t border-green-500/30 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-zinc-900/50 border-b border-green-500/20 flex items-center justify-between shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <FolderOpen className="w-3 h-3" /> PROJECTS
+          <input
+            value={current.name}
+            onChange={(e) => onRename(e.target.value)}
+            title="Rename current project"
+            className="ml-2 w-48 bg-black border border-green-500/30 px-2 py-0.5 font-normal outline-none focus:border-green-400"
+          />
+        </span>
+        <div className="flex items-center gap-3">
+          <button onClick={onCreate} className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100">
+            <Plus className="w-3 h-3" /> NEW
+          </button>
+          <button onClick={onExport} className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100">
+            <Download className="w-3 h-3" /> EXPORT
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100">
+            <Upload className="w-3 h-3" /> IMPORT
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onClose} className="opacity-50 hover:opacity-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 font-mono text-xs grid grid-cols-2 lg:grid-cols-3 gap-1 content-start custom-scrollbar">
+        {projects.map((project) => {
+          const isCurrent = project.id === current.id;
+          return (
+            <div
+              key={project.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded border ${isCurrent ? 'border-green-500/60 bg-green-900/20' : 'border-green-900/30'}`}
+            >
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={isCurrent}
+                className="flex-1 min-w-0 text-left truncate hover:text-green-200 disabled:cursor-default"
+                title={isCurrent ? 'Open now' : 'Open'}
+              >
+                {project.name}
+              </button>
+              <span className="opacity-40 shrink-0">{project.files.length} BUF</span>
+              <span className="opacity-30 shrink-0">{new Date(project.updatedAt).toLocaleDateString()}</span>
+              {!isCurrent && (
+                <button
+                  onClick={() => onDelete(project.id)}
+                  title="Delete"
+                  className="p-1 opacity-50 hover:opacity-100 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Eye, Check, X, Pencil } from 'lucide-react';
+import { ChangeProposal, ReviewDecision } from '../types';
+import { diffLines, foldUnchanged } from '../services/lineDiff';
+import DiffView from './DiffView';
+
+interface ReviewPanelProps {
+  proposal: ChangeProposal;
+  onDecide: (decision: ReviewDecision) => void;
+}
+
+// Shows a change GHOST_IN_SHELL wants to run as a diff against the buffer.
+// Nothing plays until ACCEPT; the agent waits on the decision.
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ proposal, onDecide }) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>(proposal.after);
+  const [reason, setReason] = useState<string>('');
+
+  // A new proposal starts from scratch
+  useEffect(() => {
+    setIsEditing(false);
+    setDraft(proposal.after);
+    setReason('');
+  }, [proposal.id]);
+
+  const rows = useMemo(
+    () => foldUnchanged(diffLines(proposal.before, isEditing ? draft : proposal.after)),
+    [proposal, isEditing, draft]
+  );
+  const edited = draft !== proposal.after;
+
+  return (
+    <section className="h-72 shrink-0 border-t border-yellow-500/40 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-yellow-900/10 border-b border-yellow-500/20 flex items-center justify-between shrink-0 text-xs">
+        <span className="font-bold text-yellow-400/80 flex items-center gap-2">
+          <Eye className="w-3 h-3" /> REVIEW
+          <span className="font-normal opacity-60">
+            GHOST_IN_SHELL wants to {proposal.tool === 'apply_patch' ? 'patch' : 'replace'} {proposal.file.toUpperCase()}
+            {edited && ' (edited)'}
+          </span>
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={`flex items-center gap-1 px-2 py-0.5 border transition-colors ${isEditing ? 'bg-green-500 text-black border-green-400' : 'border-green-500/40 hover:bg-green-500 hover:text-black'}`}
+          >
+            <Pencil className="w-3 h-3" /> EDIT
+          </button>
+          <button
+            onClick={() => onDecide({ kind: 'accept', code: draft, edited })}
+            className="flex items-center gap-1 px-2 py-0.5 border border-green-500/40 hover:bg-green-500 hover:text-black transition-colors"
+          >
+            <Check className="w-3 h-3" /> ACCEPT & RUN
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {isEditing && (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-1/2 shrink-0 bg-black border-r border-green-500/20 p-2 text-xs leading-relaxed text-green-300 font-mono resize-none focus:outline-none custom-scrollbar"
+          />
+        )}
+        <DiffView rows={rows} />
+      </div>
+
+      <div className="px-4 py-2 border-t border-green-500/10 flex items-center gap-2 shrink-0 text-xs">
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') onDecide({ kind: 'reject', reason }); }}
+          placeholder="Reason for rejecting (sent to the agent)"
+          className="flex-1 bg-black border border-green-500/30 rounded px-2 py-1 text-green-400 focus:outline-none focus:border-green-500"
+        />
+        <button
+          onClick={() => onDecide({ kind: 'reject', reason })}
+          className="flex items-center gap-1 px-2 py-0.5 border border-red-500/40 text-red-400 hover:bg-red-500 hover:text-black transition-colors"
+        >
+          <X className="w-3 h-3" /> REJECT
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,76 @@
+import React, { useRef } from 'react';
+import { FileAudio, Play, Plus, Trash2, X } from 'lucide-react';
+import { SampleInfo } from '../types';
+
+interface SamplePanelProps {
+  samples: SampleInfo[];
+  onAdd: (files: FileList) => void;
+  onPreview: (name: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+const SamplePanel: React.FC<SamplePanelProps> = ({ samples, onAdd, onPreview, onDelete, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <section className="max-h-56 shrink-0 border-t border-green-500/30 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-zinc-900/50 border-b border-green-500/20 flex items-center justify-between shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <FileAudio className="w-3 h-3" /> SAMPLE_LIBRARY
+          <span className="font-normal opacity-50">{samples.length} LOADED</span>
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-[10px] opacity-50 hover:opacity-100"
+          >
+            <Plus className="w-3 h-3" /> ADD
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) onAdd(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onClose} className="opacity-50 hover:opacity-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 font-mono text-xs grid grid-cols-2 lg:grid-cols-3 gap-1 content-start custom-scrollbar">
+        {samples.length === 0 && (
+          <div className="col-span-full px-2 py-2 text-green-500/30 italic">Drop audio files anywhere on the shell to add them. Use them with sample("name") or sampler({'{'} C2: "name" {'}'}).</div>
+        )}
+        {samples.map((sample) => (
+          <div key={sample.name} className="flex items-center gap-2 px-2 py-1 rounded border border-green-900/30">
+            <button
+              onClick={() => onPreview(sample.name)}
+              title="Preview"
+              className="p-1 opacity-50 hover:opacity-100 transition-opacity"
+            >
+              <Play className="w-3 h-3 fill-current" />
+            </button>
+            <span className="flex-1 truncate" title={`sample("${sample.name}")`}>{sample.name}</span>
+            <span className="opacity-40 shrink-0">{sample.duration.toFixed(2)}s</span>
+            <button
+              onClick={() => onDelete(sample.name)}
+              title="Delete"
+              className="p-1 opacity-50 hover:opacity-100 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default SamplePanel;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Disc, Download, Trash2, X } from 'lucide-react';
+import { Take } from '../types';
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+interface TakesPanelProps {
+  takes: Take[];
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const TakesPanel: React.FC<TakesPanelProps> = ({ takes, onDelete, onClose }) => {
+  return (
+    <section className="max-h-56 shrink-0 border-t border-green-500/30 bg-zinc-950 flex flex-col z-20">
+      <div className="px-4 py-2 bg-zinc-900/50 border-b border-green-500/20 flex items-center justify-between shrink-0">
+        <span className="text-xs font-bold opacity-70 flex items-center gap-2">
+          <Disc className="w-3 h-3" /> TAKES
+        </span>
+        <button onClick={onClose} className="opacity-50 hover:opacity-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 font-mono text-xs space-y-1 custom-scrollbar">
+        {takes.length === 0 && (
+          <div className="px-2 py-2 text-green-500/30 italic">No takes yet. Hit REC while playing to capture the master output.</div>
+        )}
+        {takes.map((take) => (
+          <div key={take.id} className="flex items-center gap-3 px-2 py-1 rounded border border-green-900/30">
+            <span className="opacity-30 shrink-0">[{take.timestamp}]</span>
+            <span className="font-bold shrink-0">{take.name}</span>
+            <span className="opacity-50 shrink-0">{formatDuration(take.duration)}</span>
+            <span className="opacity-30 shrink-0">{(take.size / 1024 / 1024).toFixed(1)} MB</span>
+            <audio controls src={take.url} className="h-7 flex-1 min-w-0" />
+            <a
+              href={take.url}
+              download={take.name}
+              title="Download"
+              className="p-1 opacity-50 hover:opacity-100 transition-opacity"
+            >
+              <Download className="w-3 h-3" />
+            </a>
+            <button
+              onClick={() => onDelete(take.id)}
+              title="Delete"
+              className="p-1 opacity-50 hover:opacity-100 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default TakesPanel;
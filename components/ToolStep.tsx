@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, Loader2, Check, X } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface ToolStepProps {
+  tool: NonNullable<ChatMessage['tool']>;
+}
+
+// Results the tools report as failures
+const isFailure = (result: string) => /^(Error|Rejected)\b/.test(result);
+
+// One tool call in the GHOST_TERMINAL: collapsed to its name and status,
+// expandable to what was sent and what came back
+const ToolStep: React.FC<ToolStepProps> = ({ tool }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const pending = tool.result === undefined;
+  const failed = !pending && isFailure(tool.result!);
+
+  // Code reads better unescaped than inside JSON
+  const { code, ...rest } = tool.args;
+  const sent = [
+    Object.keys(rest).length > 0 ? JSON.stringify(rest, null, 2) : '',
+    typeof code === 'string' ? code : '',
+  ].filter(Boolean).join('\n\n');
+
+  return (
+    <div className="w-full border border-green-900/40 rounded bg-black/40">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-2 py-1 text-left text-[11px] text-green-500/70 hover:text-green-400"
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+        <span className="flex-1 truncate">{tool.name}</span>
+        {pending
+          ? <Loader2 className="w-3 h-3 animate-spin shrink-0" />
+          : failed
+          ? <X className="w-3 h-3 text-red-400 shrink-0" />
+          : <Check className="w-3 h-3 text-green-400 shrink-0" />}
+      </button>
+      {isOpen && (
+        <div className="border-t border-green-900/40 text-[10px]">
+          {sent && (
+            <pre className="p-2 max-h-48 overflow-auto whitespace-pre text-green-300/70 custom-scrollbar">{sent}</pre>
+          )}
+          {!pending && (
+            <pre className={`p-2 max-h-48 overflow-auto whitespace-pre-wrap border-t border-green-900/40 custom-scrollbar ${failed ? 'text-red-400/80' : 'text-green-500/60'}`}>
+              {tool.result}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolStep;
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sliders } from 'lucide-react';
+import { TransportSettings } from '../types';
+import { audioService } from '../services/audioEngine';
+import { Position, TIME_SIGNATURES, MIN_BPM, MAX_BPM, tapTempo } from '../services/transport';
+import { KEY_MODES, parseKey } from '../services/theory';
+
+interface TransportBarProps {
+  bpm: number;
+  onBpmChange: (bpm: number) => void;
+  settings: TransportSettings;
+  onSettingsChange: (settings: TransportSettings) => void;
+  isPlaying: boolean;
+}
+
+const TONICS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const formatPosition = ({ bar, beat, sixteenth }: Position) =>
+  `${String(bar).padStart(3, '0')}:${beat}:${sixteenth}`;
+
+// Tempo, tap, meter, swing, key and the live bar:beat:sixteenth readout
+const TransportBar: React.FC<TransportBarProps> = ({ bpm, onBpmChange, settings, onSettingsChange, isPlaying }) => {
+  const [position, setPosition] = useState<string>('001:1:1');
+  const taps = useRef<number[]>([]);
+
+  // Poll the Transport once per frame; state only changes on a new sixteenth
+  useEffect(() => {
+    if (!isPlaying) {
+      setPosition('001:1:1');
+      return;
+    }
+    let frame: number;
+    const tick = () => {
+      setPosition(formatPosition(audioService.transport.position()));
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const handleTap = () => {
+    const result = tapTempo(taps.current, performance.now());
+    taps.current = result.taps;
+    if (result.bpm !== null) onBpmChange(result.bpm);
+  };
+
+  const { tonic, mode } = parseKey(settings.key);
+  const setKey = (nextTonic: string, nextMode: string) => onSettingsChange({ ...settings, key: `${nextTonic} ${nextMode}` });
+
+  const selectClass = "bg-black border border-green-500/30 rounded px-1 py-0.5 text-[10px] text-green-400 focus:outline-none focus:border-green-500";
+
+  return (
+    <div className="flex items-center gap-3 bg-zinc-900/50 px-4 py-2 rounded border border-green-500/20">
+      <span className={`text-sm font-bold tabular-nums ${isPlaying ? 'text-green-400' : 'text-green-800'}`} title="Bar:beat:sixteenth">
+        {position}
+      </span>
+
+      <Sliders className="w-4 h-4 opacity-70" />
+      <span className="text-sm font-bold min-w-[3ch]">{bpm}</span>
+      <span className="text-xs opacity-50">BPM</span>
+      <input
+        type="range"
+        min={MIN_BPM}
+        max={MAX_BPM}
+        value={bpm}
+        onChange={(e) => onBpmChange(parseInt(e.target.value))}
+        className="w-24 h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-green-500"
+      />
+      <button
+        onClick={handleTap}
+        title="Tap tempo"
+        className="px-2 py-0.5 text-[10px] font-bold border border-green-500/30 hover:bg-green-500 hover:text-black active:bg-green-400 transition-colors"
+      >
+        TAP
+      </button>
+
+      <select
+        value={settings.timeSignature.join('/')}
+        onChange={(e) => {
+          const [numerator, denominator] = e.target.value.split('/').map(Number);
+          onSettingsChange({ ...settings, timeSignature: [numerator, denominator] });
+        }}
+        title="Time signature"
+        className={selectClass}
+      >
+        {TIME_SIGNATURES.map((signature) => (
+          <option key={signature.join('/')} value={signature.join('/')}>{signature.join('/')}</option>
+        ))}
+      </select>
+
+      <span className="text-[10px] opacity-50">SWING</span>
+      <input
+        type="range"
+        min="0"
+        max="100"
+        value={Math.round(settings.swing * 100)}
+        onChange={(e) => onSettingsChange({ ...settings, swing: parseInt(e.target.value) / 100 })}
+        title={`Swing ${Math.round(settings.swing * 100)}%`}
+        className="w-16 h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-green-500"
+      />
+      <select
+        value={settings.swingSubdivision}
+        onChange={(e) => onSettingsChange({ ...settings, swingSubdivision: e.target.value as TransportSettings['swingSubdivision'] })}
+        title="Swing subdivision"
+        className={selectClass}
+      >
+        <option value="8n">8N</option>
+        <option value="16n">16N</option>
+      </select>
+
+      <span className="text-[10px] opacity-50">KEY</span>
+      <select value={tonic} onChange={(e) => setKey(e.target.value, mode)} title="Key" className={selectClass}>
+        {(TONICS.includes(tonic) ? TONICS : [tonic, ...TONICS]).map((name) => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+      <select value={mode} onChange={(e) => setKey(tonic, e.target.value)} title="Mode" className={selectClass}>
+        {(KEY_MODES.includes(mode) ? KEY_MODES : [mode, ...KEY_MODES]).map((name) => (
+          <option key={name} value={name}>{name.toUpperCase()}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default TransportBar;
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runAgentLoop } from './agentLoop';
+import { ScriptStep, ScriptedProvider, ScriptInput } from './scriptedProvider';
+import { ToolCall } from './llmProvider';
+
+const session = (script: ScriptStep) =>
+  new ScriptedProvider(script).createSession({ systemInstruction: '', tools: [] });
+
+const call = (name: string, args: Record<string, any> = {}, id = name): ToolCall => ({ id, name, args });
+
+// Calls the given tools for the message, then echoes every result as text
+const callThenEcho = (...calls: ToolCall[]): ScriptStep => (input) =>
+  input.kind === 'message'
+    ? { toolCalls: calls }
+    : { text: input.results.map((r) => `${r.call.name}=${r.result}`).join('; '), toolCalls: [] };
+
+describe('runAgentLoop', () => {
+  it('returns plain replies without touching tools', async () => {
+    const tool = vi.fn();
+    const text = await runAgentLoop(session(() => ({ text: 'hello there', toolCalls: [] })), 'hi', { tools: { tool } });
+    expect(text).toBe('hello there');
+    expect(tool).not.toHaveBeenCalled();
+  });
+
+  it('dispatches tool calls and sends their results back', async () => {
+    const inputs: ScriptInput[] = [];
+    const script = callThenEcho(call('set_bpm', { bpm: 120 }), call('list_active_loops'));
+    const setBpm = vi.fn(async (args: Record<string, any>) => `BPM set to ${args.bpm}.`);
+    const seen: string[] = [];
+
+    const text = await runAgentLoop(session((input, turn) => { inputs.push(input); return script(input, turn); }), 'faster', {
+      tools: { set_bpm: setBpm, list_active_loops: () => 'No loops.' },
+      onToolCall: (c) => seen.push(`call ${c.name}`),
+      onToolResult: (c, result) => seen.push(`result ${c.name}: ${result}`),
+    });
+
+    expect(setBpm).toHaveBeenCalledWith({ bpm: 120 }, call('set_bpm', { bpm: 120 }));
+    expect(seen).toEqual([
+      'call set_bpm', 'result set_bpm: BPM set to 120.',
+      'call list_active_loops', 'result list_active_loops: No loops.',
+    ]);
+    expect(inputs[1]).toEqual({
+      kind: 'toolResults',
+      results: [
+        { call: call('set_bpm', { bpm: 120 }), result: 'BPM set to 120.' },
+        { call: call('list_active_loops'), result: 'No loops.' },
+      ],
+    });
+    expect(text).toBe('set_bpm=BPM set to 120.; list_active_loops=No loops.');
+  });
+
+  it('answers unknown tools with an error instead of failing', async () => {
+    const text = await runAgentLoop(session(callThenEcho(call('format_disk'))), 'go', { tools: {} });
+    expect(text).toBe("format_disk=Error: unknown tool 'format_disk'");
+  });
+
+  it('reports handler exceptions to the model', async () => {
+    const text = await runAgentLoop(session(callThenEcho(call('broken'), call('fine'))), 'go', {
+      tools: {
+        broken: () => { throw new Error('boom'); },
+        fine: async () => 'ok',
+      },
+    });
+    expect(text).toBe('broken=Error: boom; fine=ok');
+  });
+
+  it('streams text from every round', async () => {
+    const deltas: string[] = [];
+    await runAgentLoop(session(callThenEcho(call('fine'))), 'go', {
+      tools: { fine: () => 'ok' },
+      onText: (delta) => deltas.push(delta),
+    });
+    expect(deltas.join('')).toBe('fine=ok');
+  });
+
+  it('stops after five tool rounds', async () => {
+    const handler = vi.fn(() => 'again');
+    const onSystem = vi.fn();
+    const text = await runAgentLoop(session((_, turn) => ({ text: `round ${turn}`, toolCalls: [call('loop', {}, `c${turn}`)] })), 'go', {
+      tools: { loop: handler },
+      onSystem,
+    });
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(text).toBe('round 5');
+    expect(onSystem).toHaveBeenCalledWith('>> Agent stopped after 5 tool rounds.');
+  });
+
+  it('refuses to start when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runAgentLoop(session(() => ({ text: 'never', toolCalls: [] })), 'go', { tools: {}, signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops before the next tool call once cancelled', async () => {
+    const controller = new AbortController();
+    const second = vi.fn(() => 'ran');
+    const loop = runAgentLoop(session(callThenEcho(call('first'), call('second'))), 'go', {
+      tools: {
+        first: () => { controller.abort(); return 'done'; },
+        second,
+      },
+      signal: controller.signal,
+    });
+    await expect(loop).rejects.toMatchObject({ name: 'AbortError' });
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('does not send results for a turn cancelled during the last tool', async () => {
+    const controller = new AbortController();
+    const script = vi.fn(callThenEcho(call('slow')));
+    const loop = runAgentLoop(session(script), 'go', {
+      tools: { slow: async () => { controller.abort(); return 'late'; } },
+      signal: controller.signal,
+    });
+    await expect(loop).rejects.toMatchObject({ name: 'AbortError' });
+    expect(script).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { ChatSession, ToolCall, TurnOptions, cancelledError } from './llmProvider';
+
+// Tool-call round trips allowed per user message
+const MAX_TOOL_ROUNDS = 5;
+
+// Executes one tool call; the returned string goes back to the model
+export type ToolHandler = (args: Record<string, any>, call: ToolCall) => Promise<string> | string;
+
+export interface AgentLoopHooks {
+  tools: Record<string, ToolHandler>;
+  // Progress notes for the terminal, e.g. ">> Compiling Generated Code..."
+  onSystem?: (text: string) => void;
+  // Reply text as it streams in, across every round
+  onText?: (delta: string) => void;
+  onToolCall?: (call: ToolCall) => void;
+  onToolResult?: (call: ToolCall, result: string) => void;
+  // Aborts the request in flight and stops before the next tool call
+  signal?: AbortSignal;
+}
+
+// Send a message and keep answering tool calls until the model replies with
+// text only (or the round limit hits). Returns the final text.
+export async function runAgentLoop(session: ChatSession, message: string, hooks: AgentLoopHooks): Promise<string | undefined> {
+  const turn: TurnOptions = { onText: hooks.onText, signal: hooks.signal };
+  let reply = await session.send(message, turn);
+
+  for (let round = 0; reply.toolCalls.length > 0 && round < MAX_TOOL_ROUNDS; round++) {
+    const results = [];
+    for (const call of reply.toolCalls) {
+      if (hooks.signal?.aborted) throw cancelledError();
+      hooks.onToolCall?.(call);
+      const handler = hooks.tools[call.name];
+      let result: string;
+      try {
+        result = handler ? await handler(call.args, call) : `Error: unknown tool '${call.name}'`;
+      } catch (err: any) {
+        result = `Error: ${err.message}`;
+      }
+      hooks.onToolResult?.(call, result);
+      results.push({ call, result });
+    }
+    if (hooks.signal?.aborted) throw cancelledError();
+    reply = await session.sendToolResults(results, turn);
+  }
+
+  if (reply.toolCalls.length > 0) {
+    hooks.onSystem?.(`>> Agent stopped after ${MAX_TOOL_ROUNDS} tool rounds.`);
+  }
+  return reply.text;
+}
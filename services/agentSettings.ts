@@ -0,0 +1,57 @@
+import { LlmProvider, ProviderConfigError, ProviderKind, ProviderSettings } from './llmProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiProvider } from './openAiProvider';
+import { ScriptedProvider } from './scriptedProvider';
+
+const STORAGE_KEY = 'sonic_shell.agent';
+const REVIEW_KEY = 'sonic_shell.agent_review';
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'scripted',
+};
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+  kind: 'gemini',
+  endpoint: '',
+  model: DEFAULT_MODELS.gemini,
+  apiKey: '',
+};
+
+// Small enough for localStorage, and read synchronously on startup
+export function loadAgentSettings(): ProviderSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return stored ? { ...DEFAULT_SETTINGS, ...stored } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveAgentSettings(settings: ProviderSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Review mode holds agent code for approval; kept apart from the provider so
+// toggling it does not restart the conversation
+export const loadReviewMode = () => localStorage.getItem(REVIEW_KEY) === '1';
+
+export function saveReviewMode(enabled: boolean) {
+  localStorage.setItem(REVIEW_KEY, enabled ? '1' : '0');
+}
+
+// Throws ProviderConfigError when the settings are incomplete
+export function createProvider(settings: ProviderSettings): LlmProvider {
+  switch (settings.kind) {
+    case 'gemini':
+      // The build-time key from .env.local still works when none is set here
+      return new GeminiProvider(settings.apiKey || process.env.API_KEY || '', settings.model || DEFAULT_MODELS.gemini);
+    case 'openai':
+      return new OpenAiProvider(settings.endpoint, settings.model, settings.apiKey);
+    case 'mock':
+      return new ScriptedProvider();
+    default:
+      throw new ProviderConfigError(`Unknown provider '${settings.kind}'`);
+  }
+}
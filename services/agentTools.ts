@@ -0,0 +1,88 @@
+import { ToolDefinition } from './llmProvider';
+
+// Tools GHOST_IN_SHELL may call. Handlers need app state, so they live in App.
+export const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    name: "run_generated_code",
+    description: "Replaces the active buffer with the given Tone.js code and runs it. Returns success or error message.",
+    parameters: {
+      type: "object",
+      properties: {
+        code: {
+          type: "string",
+          description: "The JavaScript code to execute.",
+        },
+      },
+      required: ["code"],
+    },
+  },
+  {
+    name: "get_current_code",
+    description: "Returns the code in the active buffer, or in another project buffer by name, plus the list of buffers.",
+    parameters: {
+      type: "object",
+      properties: {
+        file: {
+          type: "string",
+          description: "Buffer name, e.g. 'lines.js'. Defaults to the active buffer.",
+        },
+      },
+    },
+  },
+  {
+    name: "get_recent_logs",
+    description: "Returns the most recent kernel log lines, including runtime errors with their buffer positions and print() output tagged with its loop.",
+    parameters: {
+      type: "object",
+      properties: {
+        count: {
+          type: "integer",
+          description: "How many lines to return (default 20, max 50).",
+        },
+      },
+    },
+  },
+  {
+    name: "apply_patch",
+    description: "Applies find/replace edits to the active buffer and runs the result. Use this to change part of the existing sketch. Each 'find' must match the current code exactly once.",
+    parameters: {
+      type: "object",
+      properties: {
+        edits: {
+          type: "array",
+          description: "Edits applied in order.",
+          items: {
+            type: "object",
+            properties: {
+              find: { type: "string", description: "Exact existing text, with enough context to be unique." },
+              replace: { type: "string", description: "Replacement text." },
+            },
+            required: ["find", "replace"],
+          },
+        },
+      },
+      required: ["edits"],
+    },
+  },
+  {
+    name: "set_bpm",
+    description: "Sets the transport tempo (60-200 BPM).",
+    parameters: {
+      type: "object",
+      properties: {
+        bpm: { type: "number", description: "Beats per minute." },
+      },
+      required: ["bpm"],
+    },
+  },
+  {
+    name: "stop_audio",
+    description: "Stops playback and clears all loops.",
+    parameters: { type: "object", properties: {} },
+  },
+  {
+    name: "list_active_loops",
+    description: "Lists the tempo, meter, swing, key, instruments and live controls, and every named loop with its interval, state, mute/solo flags and last error.",
+    parameters: { type: "object", properties: {} },
+  },
+];
@@ -1,36 +1,79 @@
 import * as Tone from 'tone';
-
-// Define the shape of our "Sandbox" instruments
-interface SandboxContext {
-  synth: Tone.MonoSynth;
-  kick: Tone.MembraneSynth;
-  hat: Tone.MetalSynth;
-  snare: Tone.NoiseSynth;
-  poly: Tone.PolySynth;
-  loop: (name: string, interval: string, callback: (time: number) => void) => void;
-  Tone: typeof Tone; // Expose raw Tone for advanced users
-}
+import { Mixer } from './mixer';
+import { FxRack } from './fxRack';
+import { InstrumentPool } from './instrumentPool';
+import { presetLibrary } from './presetLibrary';
+import { LoopRegistry, LogCallback } from './loopRegistry';
+import { Rig, createRig } from './rig';
+import { evaluateSketch, SketchSources } from './sandbox';
+import { renderOffline } from './offlineRenderer';
+import { TakeRecorder } from './takeRecorder';
+import { sampleLibrary } from './sampleLibrary';
+import { MidiCapture } from './midiCapture';
+import { TransportControl } from './transport';
+import { ControlSurface } from './controlSurface';
+import { VisualTaps, LoopActivity } from './visualTaps';
+import { SourceLocation } from '../types';
 
 export interface ExecutionResult {
   success: boolean;
   error?: string;
+  location?: SourceLocation;
 }
 
+export interface RunOptions {
+  // Evaluating part of the buffer: leave loops it does not define running
+  partial?: boolean;
+  // Project buffers the code may import
+  sources?: SketchSources;
+}
+
+// How long a retired voice is kept after the last old loop stops, so notes
+// it started can finish their release
+const RETIRED_VOICE_RELEASE = '1m';
+
 class AudioEngine {
-  private synth: Tone.MonoSynth | null = null;
-  private kick: Tone.MembraneSynth | null = null;
-  private hat: Tone.MetalSynth | null = null;
-  private snare: Tone.NoiseSynth | null = null;
-  private poly: Tone.PolySynth | null = null;
+  // Instruments, mixer and FX on the realtime context
+  private rig: Rig | null = null;
   
-  // Public analyser for visualization
+  // Master output tap: waveform for the visualizer, and the recorder's source
   public analyser: Tone.Analyser | null = null;
-  
-  // Track scheduled event IDs to clear them later
-  private scheduledEvents: number[] = [];
+
+  // Spectrum and stereo analysers for the visualizer
+  public taps: VisualTaps | null = null;
+
+  // When each loop last fired
+  public activity: LoopActivity;
+
+  // Named loops currently scheduled on the Transport
+  public loops: LoopRegistry;
+
+  // Live takes of the master output
+  public recorder: TakeRecorder;
+
+  // Note capture for Standard MIDI File export
+  public midi: MidiCapture;
+
+  // Tempo, meter and swing of the live Transport
+  public transport: TransportControl;
+
+  // Knobs, toggles and XY pads declared by sketches
+  public controls: ControlSurface;
+
+  // Re-evaluated loops swap in on the next multiple of this interval
+  private quantum: string = "1m";
 
   constructor() {
-    this.scheduledEvents = [];
+    this.loops = new LoopRegistry();
+    this.recorder = new TakeRecorder();
+    this.midi = new MidiCapture();
+    this.transport = new TransportControl();
+    this.controls = new ControlSurface();
+    this.activity = new LoopActivity();
+    this.loops.onFire = (name, time) => this.activity.record(name, this.loops.ticksAt(time), time);
+    this.transport.onTempo = (bpm) => this.midi.tempo(bpm);
+    // Default presets changed in the library apply to the live voices right away
+    presetLibrary.subscribe(() => this.rig?.voices.applyDefaults((name) => presetLibrary.defaultFor(name)));
   }
 
   public async initialize() {
@@ -41,131 +84,108 @@ class AudioEngine {
         // Use a larger size for better FFT resolution
         this.analyser = new Tone.Analyser("waveform", 2048); 
         this.analyser.toDestination();
+        this.taps = new VisualTaps(this.analyser);
+        if (TakeRecorder.isSupported()) this.recorder.attach(this.analyser);
     }
 
-    if (!this.synth) {
-      // Acid Bass Synth
-      this.synth = new Tone.MonoSynth({
-        oscillator: { type: "sawtooth" },
-        envelope: { attack: 0.01, decay: 0.2, sustain: 0.1, release: 1 },
-        filterEnvelope: { attack: 0.01, decay: 0.3, sustain: 0.1, baseFrequency: 200, octaves: 3 }
-      }).connect(this.analyser);
-    }
-
-    if (!this.kick) {
-      // Punchy Kick
-      this.kick = new Tone.MembraneSynth({
-        pitchDecay: 0.05,
-        octaves: 6,
-        oscillator: { type: "sine" },
-        envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 },
-      }).connect(this.analyser);
+    if (!this.rig) {
+      this.rig = createRig(this.analyser);
     }
+  }
 
-    if (!this.hat) {
-      // Metallic Hat
-      this.hat = new Tone.MetalSynth({
-        envelope: { attack: 0.001, decay: 0.1, release: 0.01 },
-        harmonicity: 5.1,
-        modulationIndex: 32,
-        resonance: 4000,
-        octaves: 1.5,
-      }).connect(this.analyser);
-      this.hat.volume.value = -10;
-    }
+  // Channel strips and master bus between the instruments and the analyser
+  public get mixer(): Mixer | null {
+    return this.rig?.mixer ?? null;
+  }
 
-    if (!this.snare) {
-        // Noise Snare
-        this.snare = new Tone.NoiseSynth({
-            noise: { type: 'pink' },
-            envelope: { attack: 0.001, decay: 0.2, sustain: 0 }
-        }).connect(this.analyser);
-        this.snare.volume.value = -8;
-    }
+  // Shared send/return effects; they live as long as the engine does
+  public get fx(): FxRack | null {
+    return this.rig?.fx ?? null;
+  }
 
-    if (!this.poly) {
-        // Polyphonic Synth for Chords
-        this.poly = new Tone.PolySynth(Tone.Synth, {
-            oscillator: { type: "triangle" },
-            envelope: { attack: 0.02, decay: 0.1, sustain: 0.3, release: 1 }
-        }).connect(this.analyser);
-        this.poly.volume.value = -12;
-    }
+  // Built-in and sketch-declared voices
+  public get instruments(): InstrumentPool | null {
+    return this.rig?.voices ?? null;
   }
 
-  public setAnalyserType(type: 'waveform' | 'fft') {
-    if (this.analyser) {
-      this.analyser.type = type;
-    }
+  // Audition a library sample straight to the output, outside the mixer
+  public async previewSample(name: string) {
+    await this.initialize();
+    const player = new Tone.Player(sampleLibrary.buffer(name)).connect(this.analyser!);
+    player.onstop = () => player.dispose();
+    player.start();
   }
 
   public setBpm(bpm: number) {
-    Tone.Transport.bpm.value = bpm;
+    this.transport.setBpm(bpm);
+  }
+
+  public async startMidiCapture() {
+    await this.initialize();
+    this.midi.start(this.rig!.voices.nodes(), this.transport.current.timeSignature);
+  }
+
+  public setQuantum(quantum: string) {
+    this.quantum = quantum;
   }
 
   public stop() {
     Tone.Transport.stop();
     Tone.Transport.cancel(); // Clears all scheduled events
-    this.scheduledEvents = [];
+    this.loops.clear();
+    this.activity.clear();
+    // A tempo ramp in progress ends where it is
+    this.transport.setBpm(Math.round(this.transport.bpm));
     
     // Release all instruments to prevent stuck notes
-    if (this.poly) this.poly.releaseAll();
-    if (this.synth) this.synth.triggerRelease();
+    if (this.rig) {
+      this.rig.voices.releaseAll();
+      this.rig.voices.disposeRetired();
+      this.rig.samples.stopAll();
+    }
+  }
+
+  // Bounce a sketch to an audio buffer at the current tempo and meter
+  public bounce(code: string, bars: number, logCallback: LogCallback, sources?: SketchSources): Promise<Tone.ToneAudioBuffer> {
+    return renderOffline(code, { bars, bpm: this.transport.bpm, transport: this.transport.current, controlValues: this.controls.snapshot(), sources }, logCallback);
+  }
+
+  // Dispose voices this run replaced or dropped once old loops are done with them
+  private scheduleRetiredDisposal(handover: number) {
+    const until = handover + Tone.Time(RETIRED_VOICE_RELEASE).toTicks();
+    this.rig!.voices.retireUntil(until);
+    Tone.Transport.scheduleOnce(() => this.rig?.voices.disposeRetired(until), `${until}i`);
   }
 
-  public async runCode(code: string, logCallback: (msg: string, type: 'info'|'error') => void): Promise<ExecutionResult> {
+  public async runCode(code: string, logCallback: LogCallback, options: RunOptions = {}): Promise<ExecutionResult> {
     try {
       await this.initialize();
-      
-      // Stop and clear previous run
-      this.stop();
-
-      // Define the custom loop function for the user
-      const customLoop = (name: string, interval: string, callback: (time: number) => void) => {
-        logCallback(`Scheduling loop: ${name} @ ${interval}`, 'info');
-        const id = Tone.Transport.scheduleRepeat((time) => {
-          try {
-            callback(time);
-          } catch (err: any) {
-            console.error(err);
-            // Runtime errors inside loop are async, hard to catch in the initial runCode Promise
-            // But we log them for the user
-            logCallback(`Runtime Error inside loop '${name}': ${err.message}`, 'error');
-          }
-        }, interval);
-        this.scheduledEvents.push(id);
-      };
-
-      // Create the Function constructor to act as a sandbox
-      const runUserScript = new Function(
-        'synth', 
-        'kick', 
-        'hat', 
-        'snare',
-        'poly',
-        'loop', 
-        'Tone',
-        `"use strict";\n${code}`
-      );
-
-      // Execute the user's code
-      runUserScript(
-        this.synth,
-        this.kick,
-        this.hat,
-        this.snare,
-        this.poly,
-        customLoop,
-        Tone
-      );
-
-      // Start the transport
-      Tone.Transport.start();
+
+      const evaluation = evaluateSketch(code, this.rig!, this.loops, this.transport, this.controls, logCallback, options.sources);
+      const definitions = evaluation.definitions;
+
+      let handover = 0;
+      if (Tone.Transport.state === 'started') {
+        handover = this.loops.hotSwap(definitions, this.quantum, logCallback, options.partial);
+      } else {
+        this.stop();
+        this.loops.startAll(definitions, logCallback);
+        Tone.Transport.start();
+      }
+
+      evaluation.commit();
+      this.controls.commit(evaluation.controls, options.partial);
+      // A partial run only saw some of the sketch's instrument() and control calls
+      if (!options.partial) {
+        this.rig!.voices.sweep(evaluation.instruments);
+        this.controls.retain(evaluation.controls.names);
+      }
+      this.scheduleRetiredDisposal(handover);
       return { success: true };
 
     } catch (error: any) {
-      logCallback(`Compilation Error: ${error.message}`, 'error');
-      return { success: false, error: error.message };
+      logCallback(`Compilation Error: ${error.message}`, 'error', error.location);
+      return { success: false, error: error.message, location: error.location };
     }
   }
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { blockAt } from './codeBlocks';
+
+const textAt = (code: string, marker: string) => {
+  const { start, end } = blockAt(code.replace('|', ''), code.indexOf(marker));
+  return code.replace('|', '').slice(start, end);
+};
+
+const LOOPS = `loop("bass", "4n", (time) => {
+  synth.triggerAttackRelease("C2", "8n", time);
+});
+
+loop("hats", "8n", (time) => {
+  hat.triggerAttackRelease("16n", time);
+});`;
+
+describe('blockAt', () => {
+  it('picks the whole top-level statement under the cursor', () => {
+    const code = LOOPS.replace('"C2"', '|"C2"');
+    expect(textAt(code, '|')).toBe(LOOPS.split('\n\n')[0]);
+  });
+
+  it('finds statements in buffers that import and export', () => {
+    const code = `import { bass } from './lines.js';
+export const root = "C2";
+loop("bass", "4n", (time) => {
+  |bass(time);
+});`;
+    expect(textAt(code, '|')).toBe('loop("bass", "4n", (time) => {\n  bass(time);\n});');
+  });
+
+  it('takes the next statement on the line, else the previous one', () => {
+    expect(textAt('a();\n\n|  b();', '|')).toBe('b();');
+    expect(textAt('a();|\n\n\n', '|')).toBe('a();');
+  });
+
+  it('falls back to the paragraph while the buffer does not parse', () => {
+    expect(textAt('a(\n\nb(|1)\nc(\n\nd()', '|')).toBe('b(1)\nc(');
+  });
+});
@@ -0,0 +1,45 @@
+import { parse } from 'acorn';
+
+// A slice of the buffer, as offsets into it
+export interface CodeRange {
+  start: number;
+  end: number;
+}
+
+// The top-level statement under the cursor, so a multi-line loop() call
+// evaluates as one block. Falls back to the paragraph between blank lines
+// while the buffer does not parse.
+export function blockAt(code: string, offset: number): CodeRange {
+  try {
+    const program = parse(code, { ecmaVersion: 'latest', sourceType: 'module', allowReturnOutsideFunction: true });
+    const statements = program.body;
+    const hit = statements.find((node) => offset >= node.start && offset <= node.end);
+    if (hit) return { start: hit.start, end: hit.end };
+    // Between statements: the next one if it starts on this line, else the
+    // previous one, else whatever follows (e.g. from a leading comment)
+    const lineEnd = code.indexOf('\n', offset) === -1 ? code.length : code.indexOf('\n', offset);
+    const next = statements.find((node) => node.start >= offset);
+    const previous = [...statements].reverse().find((node) => node.end <= offset);
+    const fallback = next && next.start <= lineEnd ? next : previous ?? next;
+    if (fallback) return { start: fallback.start, end: fallback.end };
+  } catch {
+    // Unparseable buffer, use the paragraph instead
+  }
+  return paragraphAt(code, offset);
+}
+
+function paragraphAt(code: string, offset: number): CodeRange {
+  const blank = /\n[ \t]*\n/g;
+  let start = 0;
+  let end = code.length;
+  let match: RegExpExecArray | null;
+  while ((match = blank.exec(code)) !== null) {
+    if (match.index + match[0].length <= offset) {
+      start = match.index + match[0].length;
+    } else if (match.index >= offset) {
+      end = match.index;
+      break;
+    }
+  }
+  return { start, end };
+}
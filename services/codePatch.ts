@@ -0,0 +1,32 @@
+// Targeted edits to a buffer, so the agent can change one loop without
+// rewriting (and possibly mangling) the rest of the user's sketch.
+
+export interface PatchEdit {
+  // Exact text to replace; must occur exactly once in the buffer
+  find: string;
+  replace: string;
+}
+
+function occurrences(code: string, text: string): number {
+  let count = 0;
+  for (let at = code.indexOf(text); at !== -1; at = code.indexOf(text, at + 1)) count++;
+  return count;
+}
+
+// Apply edits in order, each against the result of the previous one. Nothing
+// is applied unless every edit matches exactly once.
+export function applyPatch(code: string, edits: PatchEdit[]): string {
+  if (edits.length === 0) throw new Error('Patch has no edits');
+  return edits.reduce((result, edit, index) => {
+    const label = `Edit ${index + 1}`;
+    if (typeof edit?.find !== 'string' || typeof edit.replace !== 'string') {
+      throw new Error(`${label} needs string 'find' and 'replace'`);
+    }
+    if (!edit.find) throw new Error(`${label} has an empty 'find'`);
+    const count = occurrences(result, edit.find);
+    if (count === 0) throw new Error(`${label}: 'find' text not found. Call get_current_code and copy it exactly.`);
+    if (count > 1) throw new Error(`${label}: 'find' text occurs ${count} times. Include more surrounding lines.`);
+    const at = result.indexOf(edit.find);
+    return result.slice(0, at) + edit.replace + result.slice(at + edit.find.length);
+  }, code);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CONSTRUCTOR_GUARD_NAME, constructorOf, guardConstructors } from './constructorGuard';
+import { instrumentLoops } from './loopGuard';
+
+const guard = (code: string) => instrumentLoops(code, guardConstructors(code)).code;
+
+// Run guarded code with the check in scope, as the sandbox does
+const run = (code: string) => new Function(CONSTRUCTOR_GUARD_NAME, '__guard', guard(code))(constructorOf, () => true);
+
+describe('guardConstructors', () => {
+  it('routes .constructor reads through the check', () => {
+    expect(guard('fn.constructor("x")')).toBe(`${CONSTRUCTOR_GUARD_NAME}(fn).constructor("x")`);
+    expect(guard('a.b["constructor"]')).toBe(`${CONSTRUCTOR_GUARD_NAME}(a.b)["constructor"]`);
+    expect(guard('f.constructor.constructor')).toBe(`${CONSTRUCTOR_GUARD_NAME}(${CONSTRUCTOR_GUARD_NAME}(f).constructor).constructor`);
+  });
+
+  it('leaves class constructors and other names alone', () => {
+    const code = 'class A { constructor() { this.constructorName = 1; } }';
+    expect(guard(code)).toBe(code);
+  });
+
+  it('works inside guarded loops', () => {
+    expect(guard('while (x.constructor) {}')).toBe(`while (__guard(1) && (${CONSTRUCTOR_GUARD_NAME}(x).constructor)) {}`);
+  });
+
+  it('leaves code that does not parse to the compiler', () => {
+    expect(guardConstructors('a.constructor(')).toEqual([]);
+  });
+});
+
+describe('constructorOf', () => {
+  it('blocks every kind of Function constructor', () => {
+    ['(() => {})', '(async () => {})', '(function* () {})', '(async function* () {})'].forEach((fn) => {
+      expect(() => run(`return ${fn}.constructor('return 1')();`)).toThrow(/not available in the sandbox/);
+    });
+    expect(() => run('return Object.getPrototypeOf(() => {}).constructor;')).not.toThrow();
+    expect(() => run('return Object.getPrototypeOf(() => {}).constructor("return 1")();')).toThrow(/not available/);
+  });
+
+  it('passes other constructors and nullish values through', () => {
+    expect(run('return [].constructor === Array && ({}).constructor === Object;')).toBe(true);
+    expect(run('const m = new Map(); return new m.constructor([[1, 2]]).get(1);')).toBe(2);
+    expect(run('const x = null; return x?.constructor;')).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { parse } from 'acorn';
+import { Insertion } from './loopGuard';
+
+// Keeps sketches away from the Function constructor. Functions it builds run
+// in global scope, outside the sandbox's `with` block, and every function
+// reaches it as .constructor. Reads of .constructor in user code go through a
+// check instead, so built-ins stay untouched for the rest of the page:
+//
+//   fn.constructor('return window')   ->  __constructorOf(fn).constructor('return window')
+//
+// Like the rest of the sandbox this guards against accidents: a computed key
+// built at runtime, e.g. fn['constr' + 'uctor'], is not seen.
+
+export const CONSTRUCTOR_GUARD_NAME = '__constructorOf';
+
+const FUNCTION_CONSTRUCTORS = new Set<unknown>([
+  Function,
+  Object.getPrototypeOf(async () => {}).constructor,
+  Object.getPrototypeOf(function* () {}).constructor,
+  Object.getPrototypeOf(async function* () {}).constructor,
+]);
+
+// Stands in for a value whose constructor is a Function constructor
+const BLOCKED = {
+  constructor: () => { throw new Error('The Function constructor is not available in the sandbox'); },
+};
+
+// Called where user code reads .constructor, with the object it reads it from
+export const constructorOf = (value: unknown): unknown =>
+  value != null && FUNCTION_CONSTRUCTORS.has((value as any).constructor) ? BLOCKED : value;
+
+const isConstructorRead = (node: any) =>
+  node.type === 'MemberExpression'
+  && node.object.type !== 'Super'
+  && (node.computed ? node.property.type === 'Literal' && node.property.value === 'constructor' : node.property.name === 'constructor');
+
+// Insertions that route every .constructor read through the check. Code that
+// does not parse gets none; compiling it reports the syntax error.
+export function guardConstructors(code: string): Insertion[] {
+  let program: any;
+  try {
+    program = parse(code, { ecmaVersion: 'latest', sourceType: 'module', allowReturnOutsideFunction: true });
+  } catch {
+    return [];
+  }
+
+  const inserts: Insertion[] = [];
+  const visit = (node: any) => {
+    // `new __constructorOf(x).constructor()` would construct the check itself
+    if (node.type === 'NewExpression' && isConstructorRead(node.callee)) {
+      inserts.push({ at: node.callee.start, text: '(' });
+      inserts.push({ at: node.callee.end, text: ')' });
+    }
+    if (isConstructorRead(node)) {
+      inserts.push({ at: node.object.start, text: `${CONSTRUCTOR_GUARD_NAME}(` });
+      inserts.push({ at: node.object.end, text: ')' });
+    }
+    Object.values(node).forEach((child: any) => {
+      if (Array.isArray(child)) child.forEach((item) => item && typeof item.type === 'string' && visit(item));
+      else if (child && typeof child.type === 'string') visit(child);
+    });
+  };
+  visit(program);
+  return inserts;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ControlSurface, createControlRun, createControls } from './controlSurface';
+
+const param = () => ({ rampTo: vi.fn() });
+
+describe('createControls', () => {
+  it('touches neither the surface nor Params before commit', () => {
+    const surface = new ControlSurface();
+    const run = createControlRun();
+    const cutoff = param();
+
+    const knob = createControls(surface, run).knob('cutoff', { min: 0, max: 10, default: 4 }).map(cutoff);
+
+    expect(knob.value).toBe(4);
+    expect(surface.list()).toEqual([]);
+    expect(cutoff.rampTo).not.toHaveBeenCalled();
+  });
+
+  it('applies declarations and mappings on commit', () => {
+    const surface = new ControlSurface();
+    const run = createControlRun();
+    const cutoff = param();
+    const knob = createControls(surface, run).knob('cutoff', { min: 0, max: 10, default: 4 }).map(cutoff);
+
+    surface.commit(run);
+    expect(surface.list().map((control) => control.name)).toEqual(['cutoff']);
+    expect(cutoff.rampTo).toHaveBeenLastCalledWith(4, 0.05);
+
+    surface.set('cutoff', 12);
+    expect(knob.value).toBe(10);
+    expect(cutoff.rampTo).toHaveBeenLastCalledWith(10, 0.05);
+  });
+
+  it('keeps values across runs, refitted to the new range', () => {
+    const surface = new ControlSurface();
+    const first = createControlRun();
+    createControls(surface, first).knob('gain', { min: 0, max: 10 });
+    surface.commit(first);
+    surface.set('gain', 8);
+
+    const second = createControlRun();
+    const knob = createControls(surface, second).knob('gain', { min: 0, max: 5 });
+    expect(knob.value).toBe(5);
+    expect(surface.value('gain')).toBe(8);
+  });
+
+  it('declares and maps right away once the run has committed', () => {
+    const surface = new ControlSurface();
+    const run = createControlRun();
+    const controls = createControls(surface, run);
+    surface.commit(run);
+
+    const level = param();
+    controls.toggle('late', { default: true });
+    controls.knob('level', { default: 0.5 }).map(level);
+
+    expect(surface.list().map((control) => control.name)).toEqual(['late', 'level']);
+    expect(level.rampTo).toHaveBeenCalledWith(0.5, 0.05);
+  });
+
+  it('only replaces the mappings a partial run declared', () => {
+    const surface = new ControlSurface();
+    const full = createControlRun();
+    const a = param();
+    const b = param();
+    const controls = createControls(surface, full);
+    controls.knob('a').map(a);
+    controls.knob('b').map(b);
+    surface.commit(full);
+
+    const partial = createControlRun();
+    const a2 = param();
+    createControls(surface, partial).knob('a').map(a2);
+    surface.commit(partial, true);
+
+    surface.set('a', 0.3);
+    surface.set('b', 0.6);
+    expect(a.rampTo).not.toHaveBeenCalledWith(0.3, 0.05);
+    expect(a2.rampTo).toHaveBeenLastCalledWith(0.3, 0.05);
+    expect(b.rampTo).toHaveBeenLastCalledWith(0.6, 0.05);
+  });
+});
+
+describe('ControlSurface', () => {
+  it('starts a copy from a snapshot without sharing it', () => {
+    const live = new ControlSurface();
+    const run = createControlRun();
+    createControls(live, run).knob('cutoff', { max: 10 });
+    live.commit(run);
+    live.set('cutoff', 7);
+
+    const copy = new ControlSurface(live.snapshot());
+    const bounce = createControlRun();
+    const knob = createControls(copy, bounce).knob('cutoff', { max: 10 });
+    copy.commit(bounce);
+    copy.set('cutoff', 2);
+
+    expect(knob.value).toBe(2);
+    expect(live.value('cutoff')).toBe(7);
+  });
+
+  it('drops controls a full run no longer declares', () => {
+    const surface = new ControlSurface();
+    const run = createControlRun();
+    const controls = createControls(surface, run);
+    controls.knob('keep');
+    controls.knob('drop');
+    surface.commit(run);
+
+    surface.retain(new Set(['keep']));
+    expect(surface.list().map((control) => control.name)).toEqual(['keep']);
+  });
+});
@@ -0,0 +1,238 @@
+import { ControlInfo } from '../types';
+
+export type ControlValue = ControlInfo['value'];
+
+// Pushes a control's value into something that makes sound
+type Binding = (value: ControlValue) => void;
+
+// Glide Param changes so dragging a knob doesn't zipper
+const DEFAULT_RAMP = 0.05;
+
+export interface KnobOptions {
+  min?: number;
+  max?: number;
+  default?: number;
+  step?: number;
+  // 'exp' spreads the travel evenly over octaves, for frequencies
+  curve?: 'linear' | 'exp';
+}
+
+export interface ToggleOptions {
+  default?: boolean;
+}
+
+export interface XYOptions {
+  x?: [number, number];
+  y?: [number, number];
+  default?: [number, number];
+}
+
+// What sketches get back. value is read live, so loop callbacks see every
+// change; map() keeps a Param or property in step with the control.
+export interface ControlHandle<T> {
+  readonly name: string;
+  readonly value: T;
+  valueOf(): T;
+  map(target: object, propertyOrRampTime?: string | number): this;
+}
+
+export interface XYHandle {
+  readonly name: string;
+  readonly value: { x: number; y: number };
+  x: ControlHandle<number>;
+  y: ControlHandle<number>;
+}
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+// Fit a value to a control's range and type, or fall back to its default
+function fit(control: ControlInfo, value: unknown): ControlValue {
+  switch (control.kind) {
+    case 'knob': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return control.default;
+      const { min, max, step } = control;
+      const stepped = step ? min + Math.round((value - min) / step) * step : value;
+      return clamp(stepped, [min, max]);
+    }
+    case 'toggle':
+      return typeof value === 'boolean' ? value : control.default;
+    case 'xy':
+      if (!Array.isArray(value) || value.length !== 2 || !value.every(Number.isFinite)) return control.default;
+      return [clamp(value[0], control.x), clamp(value[1], control.y)];
+  }
+}
+
+// A function that writes values to a Tone.Param (anything with rampTo) or to
+// a plain property such as synth.filterEnvelope's baseFrequency
+function binder(target: any, propertyOrRampTime?: string | number): (value: number | boolean) => void {
+  if (target && typeof target.rampTo === 'function') {
+    const rampTime = propertyOrRampTime ?? DEFAULT_RAMP;
+    return (value) => target.rampTo(Number(value), rampTime);
+  }
+  if (target && typeof propertyOrRampTime === 'string' && propertyOrRampTime in target) {
+    return (value) => { target[propertyOrRampTime] = value; };
+  }
+  throw new Error("map() needs a Tone.Param, e.g. synth.volume, or an object and a property name, e.g. map(synth.filterEnvelope, \"baseFrequency\")");
+}
+
+// The knobs, toggles and XY pads sketches declare. Values are kept by name
+// for the whole session, so re-running a sketch never resets a control.
+export class ControlSurface {
+  private controls: Map<string, ControlInfo> = new Map();
+  // Outlives the controls: a control that comes back picks up its old value
+  private values: Map<string, ControlValue>;
+  private bindings: Map<string, Binding[]> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  // Start from stored values, e.g. a snapshot of the live surface for a bounce
+  constructor(values: ReadonlyMap<string, ControlValue> = new Map()) {
+    this.values = new Map(values);
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): ControlInfo[] {
+    return Array.from(this.controls.values());
+  }
+
+  public value(name: string): ControlValue | undefined {
+    return this.values.get(name);
+  }
+
+  // Every stored value, for something that must not change the live ones
+  public snapshot(): ReadonlyMap<string, ControlValue> {
+    return new Map(this.values);
+  }
+
+  // A control as it would be declared: with the stored value when it still fits
+  public resolve(control: ControlInfo): ControlInfo {
+    const stored = this.values.get(control.name);
+    return { ...control, value: stored === undefined ? control.default : fit(control, stored) } as ControlInfo;
+  }
+
+  // Apply a run that evaluated cleanly: its controls, then its mappings at
+  // the controls' values. A partial run only replaces the mappings of the
+  // controls it declared.
+  public commit(run: ControlRun, partial = false) {
+    run.committed = true;
+    if (!partial) this.bindings.clear();
+    run.declared.forEach((control) => this.adopt(control, run.bindings.get(control.name)!));
+    this.notify();
+  }
+
+  // Register one control of a committed run, e.g. from a loop callback
+  public declare(control: ControlInfo, bindings: Binding[]) {
+    this.adopt(control, bindings);
+    this.notify();
+  }
+
+  public set(name: string, value: ControlValue) {
+    const control = this.controls.get(name);
+    if (!control) return;
+    const next = { ...control, value: fit(control, value) } as ControlInfo;
+    this.controls.set(name, next);
+    this.values.set(name, next.value);
+    this.bindings.get(name)?.forEach((binding) => binding(next.value));
+    this.notify();
+  }
+
+  // Drop controls the latest full run no longer declares
+  public retain(names: Set<string>) {
+    let changed = false;
+    Array.from(this.controls.keys()).forEach((name) => {
+      if (names.has(name)) return;
+      this.controls.delete(name);
+      this.bindings.delete(name);
+      changed = true;
+    });
+    if (changed) this.notify();
+  }
+
+  private adopt(control: ControlInfo, bindings: Binding[]) {
+    this.controls.set(control.name, control);
+    this.values.set(control.name, control.value);
+    this.bindings.set(control.name, bindings);
+    bindings.forEach((binding) => binding(control.value));
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// What one evaluation declared and mapped. Nothing reaches the surface, or
+// the Params the controls map to, until the run commits.
+export interface ControlRun {
+  names: Set<string>;
+  declared: Map<string, ControlInfo>;
+  bindings: Map<string, Binding[]>;
+  committed: boolean;
+}
+
+export const createControlRun = (): ControlRun => ({ names: new Set(), declared: new Map(), bindings: new Map(), committed: false });
+
+// knob(), toggle() and xy() for one evaluation
+export function createControls(surface: ControlSurface, run: ControlRun) {
+  const declare = (control: ControlInfo) => {
+    if (!control.name) throw new Error(`${control.kind}() needs a name`);
+    const declared = surface.resolve(control);
+    run.names.add(control.name);
+    run.declared.set(control.name, declared);
+    run.bindings.set(control.name, []);
+    if (run.committed) surface.declare(declared, run.bindings.get(control.name)!);
+  };
+
+  // Until the run commits a control reads the value it was declared with
+  const current = (name: string): ControlValue =>
+    run.committed ? surface.value(name)! : run.declared.get(name)!.value;
+
+  // Map the control's value (or part of it); once committed, apply it now
+  const addBinding = (name: string, write: (value: number | boolean) => void, pick: (value: ControlValue) => number | boolean) => {
+    const binding: Binding = (value) => write(pick(value));
+    run.bindings.get(name)!.push(binding);
+    if (run.committed) binding(current(name));
+  };
+
+  const handle = <T>(name: string, read: () => T, pick: (value: ControlValue) => number | boolean): ControlHandle<T> => ({
+    name,
+    get value() { return read(); },
+    valueOf() { return read(); },
+    map(target, propertyOrRampTime) {
+      addBinding(name, binder(target, propertyOrRampTime), pick);
+      return this;
+    },
+  });
+
+  return {
+    knob: (name: string, options: KnobOptions = {}): ControlHandle<number> => {
+      const { min = 0, max = 1, step, curve = 'linear' } = options;
+      if (!(min < max)) throw new Error(`knob '${name}': min must be below max`);
+      if (curve === 'exp' && min <= 0) throw new Error(`knob '${name}': an exp curve needs min above 0`);
+      declare({ kind: 'knob', name, min, max, step, curve, default: clamp(options.default ?? min, [min, max]), value: 0 });
+      return handle(name, () => current(name) as number, (value) => value as number);
+    },
+
+    toggle: (name: string, options: ToggleOptions = {}): ControlHandle<boolean> => {
+      declare({ kind: 'toggle', name, default: options.default ?? false, value: false });
+      return handle(name, () => current(name) as boolean, (value) => value as boolean);
+    },
+
+    xy: (name: string, options: XYOptions = {}): XYHandle => {
+      const { x = [0, 1], y = [0, 1] } = options;
+      if (!(x[0] < x[1]) || !(y[0] < y[1])) throw new Error(`xy '${name}': each range needs min below max`);
+      const fallback: [number, number] = [(x[0] + x[1]) / 2, (y[0] + y[1]) / 2];
+      const initial = options.default ?? fallback;
+      declare({ kind: 'xy', name, x, y, default: [clamp(initial[0], x), clamp(initial[1], y)], value: fallback });
+      const position = () => current(name) as [number, number];
+      return {
+        name,
+        get value() { const [px, py] = position(); return { x: px, y: py }; },
+        x: handle(name, () => position()[0], (value) => (value as [number, number])[0]),
+        y: handle(name, () => position()[1], (value) => (value as [number, number])[1]),
+      };
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import * as db from './db';
+import { ChatMessage, Conversation } from '../types';
+
+// Oldest messages beyond this are dropped when saving
+const MAX_STORED_MESSAGES = 200;
+
+// GHOST_TERMINAL conversations in IndexedDB, one per project, so a session
+// picks up where it left off after a reload or a project switch
+class ConversationStore {
+  public async load(projectId: string): Promise<ChatMessage[] | undefined> {
+    const stored = await db.get<Conversation>('conversations', projectId);
+    return stored?.messages;
+  }
+
+  public async save(projectId: string, messages: ChatMessage[]) {
+    const conversation: Conversation = {
+      projectId,
+      messages: messages.slice(-MAX_STORED_MESSAGES),
+      updatedAt: Date.now(),
+    };
+    await db.put('conversations', conversation);
+  }
+
+  public async remove(projectId: string) {
+    await db.remove('conversations', projectId);
+  }
+}
+
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,58 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'sonic_shell';
+const DB_VERSION = 4;
+
+// Every object store the app uses, keyed by their keyPath. New stores are
+// created on the next version bump.
+const STORES: Record<string, string> = {
+  samples: 'name',
+  projects: 'id',
+  conversations: 'projectId',
+  presets: 'name',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+export async function getAll<T>(store: string): Promise<T[]> {
+  const db = await openDb();
+  return request(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function get<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return request(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function put<T>(store: string, value: T): Promise<void> {
+  const db = await openDb();
+  await request(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function remove(store: string, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await request(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
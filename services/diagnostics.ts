@@ -0,0 +1,92 @@
+import { parse } from 'acorn';
+import { Insertion } from './loopGuard';
+import { SourceLocation } from '../types';
+
+// Name a buffer's generated function carries in stack traces
+const URL_PREFIX = 'sonic-shell/';
+export const sketchUrl = (file: string) => `${URL_PREFIX}${file}`;
+
+// First stack frame that belongs to any buffer: file, line, column
+const SKETCH_FRAME = new RegExp(`${URL_PREFIX}([^:\\s()]+):(\\d+):(\\d+)`);
+
+// An Error that knows where in the buffer it came from
+export interface LocatedError extends Error {
+  location?: SourceLocation;
+}
+
+// Lines the engine puts in front of a Function body (the "function anonymous(...)"
+// header). Measured once instead of assumed, since engines differ.
+let headerLines: number | null = null;
+function functionHeaderLines(): number {
+  if (headerLines === null) {
+    try {
+      new Function('__scope', `throw new Error();\n//# sourceURL=${sketchUrl('probe')}`)();
+    } catch (err: any) {
+      const match = SKETCH_FRAME.exec(String(err?.stack ?? ''));
+      headerLines = match ? parseInt(match[2], 10) - 1 : 2;
+    }
+  }
+  return headerLines!;
+}
+
+// Acorn reports where a syntax error is, which new Function() does not
+export function locateSyntaxError(code: string, file: string): SourceLocation | null {
+  try {
+    parse(code, { ecmaVersion: 'latest', sourceType: 'module', allowReturnOutsideFunction: true });
+    return null;
+  } catch (err: any) {
+    return err?.loc ? { file, line: err.loc.line, column: err.loc.column + 1 } : null;
+  }
+}
+
+// A buffer as it was handed to new Function(), for mapping positions back
+export interface CompiledSource {
+  code: string;
+  inserts: Insertion[];
+  // Lines our own wrapper adds before the buffer's first line
+  wrapperLines: number;
+}
+
+// Map runtime errors to buffer positions. Sources are looked up when an error
+// arrives, so buffers compiled later (imports) are covered too.
+export function createLocator(sources: Map<string, CompiledSource>) {
+  return (err: unknown): SourceLocation | null => {
+    const match = SKETCH_FRAME.exec(String((err as any)?.stack ?? ''));
+    if (!match) return null;
+    const file = match[1];
+    const source = sources.get(file);
+    if (!source) return null;
+
+    const lineCount = source.code.split('\n').length;
+    const line = parseInt(match[2], 10) - functionHeaderLines() - source.wrapperLines;
+    if (line < 1 || line > lineCount) return null;
+
+    return { file, line, column: originalColumn(source, line, parseInt(match[3], 10)) };
+  };
+}
+
+// Undo the shift caused by guard text inserted earlier on the same line;
+// a position inside the guard itself maps to where it was inserted
+function originalColumn(source: CompiledSource, line: number, reported: number): number {
+  let lineStart = 0;
+  for (let l = 1; l < line; l++) lineStart = source.code.indexOf('\n', lineStart) + 1;
+  const lineEnd = source.code.indexOf('\n', lineStart) === -1 ? source.code.length : source.code.indexOf('\n', lineStart);
+
+  let column = reported;
+  let shift = 0;
+  for (const insert of source.inserts) {
+    if (insert.at < lineStart || insert.at > lineEnd) continue;
+    const start = insert.at - lineStart + 1 + shift;
+    if (reported < start) break;
+    if (reported < start + insert.text.length) {
+      column = insert.at - lineStart + 1;
+      break;
+    }
+    shift += insert.text.length;
+    column = reported - shift;
+  }
+  return Math.max(1, column);
+}
+
+export const formatLocation = (location: SourceLocation) =>
+  `${(location.file ?? 'main.js').toUpperCase()}:${location.line}:${location.column}`;
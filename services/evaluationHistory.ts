@@ -0,0 +1,45 @@
+import { Snapshot } from '../types';
+
+// Oldest snapshots are dropped past this many
+const MAX_SNAPSHOTS = 200;
+
+// Every run of the session, newest first
+class EvaluationHistory {
+  private snapshots: Snapshot[] = [];
+  private listeners: Set<() => void> = new Set();
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): Snapshot[] {
+    return this.snapshots;
+  }
+
+  public get(id: string): Snapshot | undefined {
+    return this.snapshots.find((snapshot) => snapshot.id === id);
+  }
+
+  public record(entry: Omit<Snapshot, 'id' | 'timestamp'>): Snapshot {
+    const snapshot: Snapshot = {
+      ...entry,
+      id: Math.random().toString(36).slice(2, 11),
+      timestamp: new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    };
+    this.snapshots = [snapshot, ...this.snapshots].slice(0, MAX_SNAPSHOTS);
+    this.notify();
+    return snapshot;
+  }
+
+  public clear() {
+    this.snapshots = [];
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const evaluationHistory = new EvaluationHistory();
@@ -0,0 +1,84 @@
+import * as Tone from 'tone';
+import { Mixer } from './mixer';
+
+// The shared effects, exposed to user code as `fx`
+export interface FxUnits {
+  reverb: Tone.Reverb;
+  delay: Tone.FeedbackDelay;
+  distortion: Tone.Distortion;
+  filter: Tone.Filter;
+}
+
+export type FxName = keyof FxUnits;
+
+// Send/return effects owned by the engine. Each unit is fully wet and feeds
+// its own return strip on the mixer; instruments reach it through send gains
+// that persist across evaluations, so nothing is rebuilt on re-run.
+export class FxRack {
+  public units: FxUnits;
+  private sends: Map<string, Tone.Gain> = new Map();
+
+  constructor(private mixer: Mixer) {
+    this.units = {
+      reverb: new Tone.Reverb({ decay: 3, preDelay: 0.01, wet: 1 }),
+      delay: new Tone.FeedbackDelay({ delayTime: "8n.", feedback: 0.4, wet: 1 }),
+      distortion: new Tone.Distortion({ distortion: 0.4, wet: 1 }),
+      filter: new Tone.Filter({ type: "lowpass", frequency: 800, Q: 2 }),
+    };
+
+    this.names().forEach((name) => {
+      this.units[name].connect(this.mixer.returnChannel(FxRack.returnName(name)));
+    });
+  }
+
+  // Mixer strip name for an effect's return
+  public static returnName(name: FxName): string {
+    return `fx.${name}`;
+  }
+
+  public names(): FxName[] {
+    return Object.keys(this.units) as FxName[];
+  }
+
+  // Set how much of a channel goes to an effect, as linear gain (0-1)
+  public send(source: string, fx: string, amount: number, rampTime?: string | number) {
+    if (!Object.hasOwn(this.units, fx)) {
+      throw new Error(`Unknown effect '${fx}'. Available: ${this.names().join(', ')}`);
+    }
+    if (!this.mixer.has(source)) {
+      throw new Error(`Unknown mixer channel '${source}'`);
+    }
+    if (this.reaches(fx as FxName, source)) {
+      throw new Error(`Sending ${source} to ${fx} would feed ${fx} back into itself`);
+    }
+
+    const key = `${source}>${fx}`;
+    let gain = this.sends.get(key);
+    if (!gain) {
+      gain = new Tone.Gain(0);
+      this.mixer.channel(source).connect(gain);
+      gain.connect(this.units[fx as FxName]);
+      this.sends.set(key, gain);
+    }
+
+    if (rampTime !== undefined) gain.gain.rampTo(amount, rampTime);
+    else gain.gain.value = amount;
+  }
+
+  // Dispose a channel's sends, before the channel itself goes
+  public removeSends(source: string) {
+    this.names().forEach((fx) => {
+      const key = `${source}>${fx}`;
+      this.sends.get(key)?.dispose();
+      this.sends.delete(key);
+    });
+  }
+
+  // Whether an effect's output gets to a channel, directly or through sends
+  // between returns
+  private reaches(fx: FxName, channel: string): boolean {
+    const output = FxRack.returnName(fx);
+    if (output === channel) return true;
+    return this.names().some((next) => this.sends.has(`${output}>${next}`) && this.reaches(next, channel));
+  }
+}
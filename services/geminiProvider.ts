@@ -0,0 +1,76 @@
+import { GoogleGenAI, Chat, FunctionDeclaration, GenerateContentConfig, GenerateContentResponse, PartListUnion, Schema, Type } from "@google/genai";
+import { AgentReply, ChatSession, LlmProvider, ProviderConfigError, SessionOptions, ToolCall, ToolSchema, TurnOptions, cancelledError, normalizeHistory } from './llmProvider';
+
+// Gemini spells JSON Schema types in upper case
+function toGeminiSchema(schema: ToolSchema): Schema {
+  return {
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(
+      Object.entries(schema.properties).map(([name, prop]) => [name, toGeminiSchema(prop)])
+    ),
+  };
+}
+
+const toToolCalls = (response: GenerateContentResponse, offset: number): ToolCall[] =>
+  (response.functionCalls ?? []).map((call, index) => ({
+    id: call.id ?? `${call.name}-${offset + index}`,
+    name: call.name ?? '',
+    args: call.args ?? {},
+  }));
+
+export class GeminiProvider implements LlmProvider {
+  constructor(private apiKey: string, private model: string) {
+    if (!apiKey) throw new ProviderConfigError('Gemini needs an API key. Add one in the agent settings.');
+  }
+
+  public createSession(options: SessionOptions): ChatSession {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const functionDeclarations: FunctionDeclaration[] = options.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      // Gemini rejects objects without properties, so no-argument tools omit them
+      parameters: Object.keys(tool.parameters.properties ?? {}).length > 0 ? toGeminiSchema(tool.parameters) : undefined,
+    }));
+    const config: GenerateContentConfig = {
+      systemInstruction: options.systemInstruction,
+      tools: [{ functionDeclarations }],
+    };
+    const chat: Chat = ai.chats.create({
+      model: this.model,
+      config,
+      history: normalizeHistory(options.history).map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    });
+
+    // Text arrives in chunks; function calls may come in any of them
+    const stream = async (message: PartListUnion, turn: TurnOptions = {}): Promise<AgentReply> => {
+      // A per-message config replaces the session's, so repeat it
+      const chunks = await chat.sendMessageStream({ message, config: { ...config, abortSignal: turn.signal } });
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      for await (const chunk of chunks) {
+        if (turn.signal?.aborted) throw cancelledError();
+        const delta = chunk.text;
+        if (delta) {
+          text += delta;
+          turn.onText?.(delta);
+        }
+        toolCalls.push(...toToolCalls(chunk, toolCalls.length));
+      }
+      return { text: text || undefined, toolCalls };
+    };
+
+    return {
+      send: (message, turn) => stream(message, turn),
+      sendToolResults: (results, turn) => stream(
+        results.map(({ call, result }) => ({
+          functionResponse: { id: call.id, name: call.name, response: { result } },
+        })),
+        turn
+      ),
+    };
+  }
+}
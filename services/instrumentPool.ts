@@ -0,0 +1,201 @@
+import * as Tone from 'tone';
+import { InstrumentInfo, InstrumentPreset, InstrumentType } from '../types';
+
+type Route = <T extends Tone.ToneAudioNode>(name: string, node: T) => T;
+type Unroute = (node: Tone.ToneAudioNode) => void;
+
+// Anything the pool manages: a Tone.js voice whose settings round-trip as JSON
+export type Voice = Tone.ToneAudioNode & {
+  get(): Record<string, any>;
+  set(options: Record<string, any>): unknown;
+};
+
+const FACTORIES: Record<InstrumentType, () => Voice> = {
+  synth: () => new Tone.Synth(),
+  mono: () => new Tone.MonoSynth(),
+  am: () => new Tone.AMSynth(),
+  fm: () => new Tone.FMSynth(),
+  duo: () => new Tone.DuoSynth(),
+  membrane: () => new Tone.MembraneSynth(),
+  metal: () => new Tone.MetalSynth(),
+  noise: () => new Tone.NoiseSynth(),
+  pluck: () => new Tone.PluckSynth(),
+  poly: () => new Tone.PolySynth(Tone.Synth),
+};
+
+export const INSTRUMENT_TYPES = Object.keys(FACTORIES) as InstrumentType[];
+
+export const isInstrumentType = (type: unknown): type is InstrumentType =>
+  typeof type === 'string' && Object.hasOwn(FACTORIES, type);
+
+// Types of the built-in voices, so presets can only replace a matching one
+export const BUILT_IN_TYPES: Record<string, InstrumentType> = {
+  synth: 'mono',
+  kick: 'membrane',
+  hat: 'metal',
+  snare: 'noise',
+  poly: 'poly',
+};
+
+interface Entry {
+  type: InstrumentType;
+  node: Voice;
+  builtIn: boolean;
+  // Settings the voice started from, restored before each new set of options
+  baseline: Record<string, any>;
+  // Default preset applied to a built-in, as name@updatedAt
+  applied?: string;
+}
+
+// What one evaluation declared. Nothing reaches the live voices until the
+// run commits; a run that fails only has its new nodes to throw away.
+export interface VoiceRun {
+  names: Set<string>;
+  // Declarations of this run by name, for a name declared twice
+  staged: Map<string, Entry>;
+  changes: Array<() => void>;
+  created: Voice[];
+}
+
+export const createVoiceRun = (): VoiceRun => ({ names: new Set(), staged: new Map(), changes: [], created: [] });
+
+interface Retired {
+  node: Voice;
+  // Transport tick after which no loop plays it, once the engine knows
+  until?: number;
+}
+
+// Every voice on a rig: the built-ins and the ones sketches declare with
+// instrument(). Declared voices are reused across runs by name so re-running
+// re-applies their options instead of piling up nodes.
+export class InstrumentPool {
+  private voices: Map<string, Entry> = new Map();
+  // Voices a run replaced or dropped. Old loops may play them until their
+  // hand-over, so they are disposed after it, or when the engine stops.
+  private retired: Retired[] = [];
+
+  constructor(private route: Route, private unroute: Unroute) {}
+
+  public builtIn<T extends Voice>(name: string, node: T): T {
+    this.voices.set(name, { type: BUILT_IN_TYPES[name], node: this.route(name, node), builtIn: true, baseline: node.get() });
+    return node;
+  }
+
+  // Declare a voice for a run. A voice of the same type is reused and gets
+  // its options on commit; a new one is built now, so the sketch can route
+  // and map it, but only replaces the old voice on commit.
+  public declare(name: string, type: InstrumentType, options: Record<string, any>, run: VoiceRun): Voice {
+    if (!isInstrumentType(type)) {
+      throw new Error(`Unknown instrument type '${type}'. Use one of: ${INSTRUMENT_TYPES.join(', ')}`);
+    }
+    const existing = run.staged.get(name) ?? this.voices.get(name);
+    if (existing?.builtIn) {
+      throw new Error(`'${name}' is a built-in instrument. Pick another name, or give it a default preset in PRESETS`);
+    }
+    run.names.add(name);
+
+    if (existing && existing.type === type) {
+      run.staged.set(name, existing);
+      run.changes.push(() => {
+        existing.node.set(existing.baseline);
+        existing.node.set(options);
+      });
+      return existing.node;
+    }
+
+    const node = this.route(name, FACTORIES[type]());
+    const entry: Entry = { type, node, builtIn: false, baseline: node.get() };
+    node.set(options);
+    run.created.push(node);
+    run.staged.set(name, entry);
+    run.changes.push(() => {
+      const replaced = this.voices.get(name);
+      if (replaced && replaced !== entry) this.retired.push({ node: replaced.node });
+      this.voices.set(name, entry);
+    });
+    return node;
+  }
+
+  // Apply a run that evaluated cleanly. Declarations made after this (from a
+  // loop callback) need another commit.
+  public commit(run: VoiceRun) {
+    run.changes.splice(0).forEach((change) => change());
+  }
+
+  // Throw away the nodes a failed run built; the live voices never saw it
+  public discard(run: VoiceRun) {
+    run.created.forEach((node) => this.disposeNode(node));
+  }
+
+  public get(name: string): Voice | undefined {
+    return this.voices.get(name)?.node;
+  }
+
+  public list(): InstrumentInfo[] {
+    return Array.from(this.voices.entries()).map(([name, { type, builtIn }]) => ({ name, type, builtIn }));
+  }
+
+  // Every voice by name, e.g. for MIDI capture
+  public nodes(): Record<string, Voice> {
+    return Object.fromEntries(Array.from(this.voices.entries()).map(([name, entry]) => [name, entry.node]));
+  }
+
+  // Replace a voice's settings with a preset's, starting from its baseline
+  public apply(name: string, preset: InstrumentPreset) {
+    const entry = this.voices.get(name);
+    if (!entry) throw new Error(`Unknown instrument '${name}'`);
+    if (entry.type !== preset.type) {
+      throw new Error(`Preset '${preset.name}' is for ${preset.type} voices, '${name}' is ${entry.type}`);
+    }
+    entry.node.set(entry.baseline);
+    entry.node.set(preset.options);
+  }
+
+  // Bring each built-in in line with its default preset, touching only the
+  // ones whose preset changed since the last call
+  public applyDefaults(defaultFor: (name: string) => InstrumentPreset | undefined) {
+    this.voices.forEach((entry, name) => {
+      if (!entry.builtIn) return;
+      const preset = defaultFor(name);
+      const applied = preset ? `${preset.name}@${preset.updatedAt}` : undefined;
+      if (applied === entry.applied) return;
+      entry.applied = applied;
+      if (preset) this.apply(name, preset);
+      else entry.node.set(entry.baseline);
+    });
+  }
+
+  // Retire declared voices the latest full run no longer mentions
+  public sweep(declared: Set<string>) {
+    this.voices.forEach((entry, name) => {
+      if (entry.builtIn || declared.has(name)) return;
+      this.retired.push({ node: entry.node });
+      this.voices.delete(name);
+    });
+  }
+
+  public releaseAll() {
+    this.voices.forEach(({ node }) => {
+      if ('releaseAll' in node) (node as Tone.PolySynth).releaseAll();
+      else if ('triggerRelease' in node) (node as Tone.Synth).triggerRelease();
+    });
+  }
+
+  // Mark voices retired since the last call as silent after this tick
+  public retireUntil(tick: number) {
+    this.retired.forEach((retired) => { retired.until ??= tick; });
+  }
+
+  // Dispose retired voices that are silent by this tick, or all of them
+  public disposeRetired(tick?: number) {
+    const expired = (retired: Retired) => tick === undefined || (retired.until !== undefined && retired.until <= tick);
+    this.retired.filter(expired).forEach(({ node }) => this.disposeNode(node));
+    this.retired = this.retired.filter((retired) => !expired(retired));
+  }
+
+  // Dispose first: unrouting the last voice on a channel disposes the channel
+  private disposeNode(node: Voice) {
+    node.dispose();
+    this.unroute(node);
+  }
+}
@@ -0,0 +1,181 @@
+import { LogEntry, LogLevel, SourceLocation } from '../types';
+import { formatLocation } from './diagnostics';
+
+const SIZE_KEY = 'sonic_shell.log_size';
+
+// Marks exported logs, like preset and project files
+const EXPORT_FORMAT = 'sonic-shell-log';
+const EXPORT_VERSION = 1;
+
+// Buffer sizes offered in KERNEL_LOG; older entries fall off the front
+export const LOG_SIZES = [50, 200, 1000, 5000];
+const DEFAULT_SIZE = 200;
+
+// Identical messages this close to the end fold into one entry with a count
+const FOLD_WINDOW = 10;
+
+// Entries one source may add per second before the rest are dropped, so a
+// print() in a sixteenth-note loop cannot flood the log
+const RATE_LIMIT = 30;
+const RATE_WINDOW_MS = 1000;
+
+// Filtering ranks: success and system messages count as info
+export const LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogThreshold = typeof LEVELS[number];
+
+export const severity = (type: LogLevel): number => {
+  switch (type) {
+    case 'debug': return 0;
+    case 'warn': return 2;
+    case 'error': return 3;
+    default: return 1;
+  }
+};
+
+// Longest message print() produces; the rest is cut off
+const MAX_PRINT_LENGTH = 2000;
+
+// Render print() arguments like the console does, on one line
+export function formatArgs(args: unknown[]): string {
+  const text = args.map((arg) => {
+    if (typeof arg === 'string') return arg;
+    if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+    if (typeof arg === 'function') return `[function ${arg.name || 'anonymous'}]`;
+    if (typeof arg !== 'object' || arg === null) return String(arg);
+    try {
+      return JSON.stringify(arg) ?? String(arg);
+    } catch {
+      // Tone nodes and other cyclic objects
+      return `[${arg.constructor?.name ?? 'object'}]`;
+    }
+  }).join(' ');
+  return text.length > MAX_PRINT_LENGTH ? `${text.slice(0, MAX_PRINT_LENGTH)}…` : text;
+}
+
+export const loadLogSize = (): number => {
+  const stored = Number(localStorage.getItem(SIZE_KEY));
+  return LOG_SIZES.includes(stored) ? stored : DEFAULT_SIZE;
+};
+
+const clockTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Everything the shell, the engine and sketches report, newest last
+class KernelLog {
+  private entries: LogEntry[] = [];
+  private size: number = loadLogSize();
+  private listeners: Set<() => void> = new Set();
+
+  // Per-source counts for the current rate window, and what was dropped
+  private windowStart = 0;
+  private counts: Map<string, number> = new Map();
+  private dropped: Map<string, number> = new Map();
+  private flushTimer: number | null = null;
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): LogEntry[] {
+    return this.entries;
+  }
+
+  public get capacity(): number {
+    return this.size;
+  }
+
+  // Returns false when the message was dropped by the rate limit
+  public add(message: string, type: LogLevel, location?: SourceLocation, source?: string): boolean {
+    const time = Date.now();
+    if (!this.admit(source ?? '', time)) return false;
+    this.push({ id: Math.random().toString(36).substr(2, 9), time, timestamp: clockTime(time), message, type, location, source });
+    return true;
+  }
+
+  public clear() {
+    this.entries = [];
+    this.notify();
+  }
+
+  public setSize(size: number) {
+    if (!LOG_SIZES.includes(size)) return;
+    this.size = size;
+    localStorage.setItem(SIZE_KEY, String(size));
+    this.entries = this.entries.slice(-size);
+    this.notify();
+  }
+
+  public toJson(entries: LogEntry[] = this.entries): string {
+    return JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      entries: entries.map(({ time, type, message, source, location, count }) => ({
+        time: new Date(time).toISOString(), level: type, message, source, location, count,
+      })),
+    }, null, 2);
+  }
+
+  public toText(entries: LogEntry[] = this.entries): string {
+    return entries.map((log) =>
+      `${new Date(log.time).toISOString()} ${log.type.toUpperCase().padEnd(7)} ` +
+      (log.source ? `[${log.source}] ` : '') +
+      log.message +
+      (log.count && log.count > 1 ? ` (x${log.count})` : '') +
+      (log.location ? ` @ ${formatLocation(log.location)}` : '')
+    ).join('\n') + '\n';
+  }
+
+  private push(entry: LogEntry) {
+    const recent = this.entries.slice(-FOLD_WINDOW);
+    const repeat = recent.find((log) => log.message === entry.message && log.type === entry.type && log.source === entry.source);
+    this.entries = repeat
+      ? [...this.entries.filter((log) => log !== repeat), { ...entry, count: (repeat.count ?? 1) + 1 }]
+      : [...this.entries.slice(-(this.size - 1)), entry];
+    this.notify();
+  }
+
+  // Count the message against its source's allowance for this window
+  private admit(source: string, time: number): boolean {
+    if (time - this.windowStart >= RATE_WINDOW_MS) {
+      this.flushDropped();
+      this.windowStart = time;
+      this.counts.clear();
+    }
+    const count = (this.counts.get(source) ?? 0) + 1;
+    this.counts.set(source, count);
+    if (count <= RATE_LIMIT) return true;
+
+    this.dropped.set(source, (this.dropped.get(source) ?? 0) + 1);
+    if (this.flushTimer === null) {
+      this.flushTimer = window.setTimeout(() => this.flushDropped(), RATE_WINDOW_MS - (time - this.windowStart));
+    }
+    return false;
+  }
+
+  // One warning per source that went over the limit
+  private flushDropped() {
+    if (this.flushTimer !== null) window.clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    const dropped = Array.from(this.dropped);
+    this.dropped.clear();
+    dropped.forEach(([source, count]) => {
+      const time = Date.now();
+      this.push({
+        id: Math.random().toString(36).substr(2, 9),
+        time,
+        timestamp: clockTime(time),
+        message: `${count} message(s) dropped: over ${RATE_LIMIT} per second`,
+        type: 'warn',
+        source: source || undefined,
+      });
+    });
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const kernelLog = new KernelLog();
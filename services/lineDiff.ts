@@ -0,0 +1,80 @@
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+// Line diff from the longest common subsequence. Sketches are small, so the
+// quadratic table is fine; common head and tail lines are trimmed first.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+
+  // lcs[i][j]: common lines between midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      middle.push({ type: 'remove', text: midA[i++] });
+    } else {
+      middle.push({ type: 'add', text: midB[j++] });
+    }
+  }
+
+  return [
+    ...a.slice(0, head).map((text): DiffLine => ({ type: 'same', text })),
+    ...middle,
+    ...a.slice(a.length - tail).map((text): DiffLine => ({ type: 'same', text })),
+  ];
+}
+
+// Unchanged lines kept around each change; longer runs fold
+const CONTEXT_LINES = 2;
+
+export type DiffRow = DiffLine | { type: 'fold'; count: number };
+
+export function foldUnchanged(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let run: DiffLine[] = [];
+  const flush = (atStart: boolean, atEnd: boolean) => {
+    const keepHead = atStart ? 0 : CONTEXT_LINES;
+    const keepTail = atEnd ? 0 : CONTEXT_LINES;
+    if (run.length > keepHead + keepTail + 1) {
+      rows.push(...run.slice(0, keepHead));
+      rows.push({ type: 'fold', count: run.length - keepHead - keepTail });
+      rows.push(...run.slice(run.length - keepTail));
+    } else {
+      rows.push(...run);
+    }
+    run = [];
+  };
+  lines.forEach((line) => {
+    if (line.type === 'same') {
+      run.push(line);
+    } else {
+      flush(rows.length === 0, false);
+      rows.push(line);
+    }
+  });
+  flush(rows.length === 0, true);
+  return rows;
+}
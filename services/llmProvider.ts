@@ -0,0 +1,96 @@
+// Provider-neutral shape of a tool-calling chat, so GHOST_IN_SHELL can talk
+// to Gemini, an OpenAI-compatible server or a scripted fake alike.
+
+// JSON Schema subset used for tool parameters
+export interface ToolSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, ToolSchema>;
+  items?: ToolSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ToolResult {
+  call: ToolCall;
+  result: string;
+}
+
+// One reply from the model: text, tool calls, or both
+export interface AgentReply {
+  text?: string;
+  toolCalls: ToolCall[];
+}
+
+// Per-turn hooks: reply text as it streams in, and cancellation
+export interface TurnOptions {
+  onText?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChatSession {
+  send(message: string, options?: TurnOptions): Promise<AgentReply>;
+  sendToolResults(results: ToolResult[], options?: TurnOptions): Promise<AgentReply>;
+}
+
+// Earlier exchange a new session resumes from. Only text is kept, tool
+// calls do not survive a reload.
+export interface HistoryTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface SessionOptions {
+  systemInstruction: string;
+  tools: ToolDefinition[];
+  history?: HistoryTurn[];
+}
+
+// Strict APIs want history to start with the user and alternate roles
+export function normalizeHistory(history: HistoryTurn[] = []): HistoryTurn[] {
+  const turns: HistoryTurn[] = [];
+  history.forEach((turn) => {
+    if (!turn.text.trim() || (turns.length === 0 && turn.role !== 'user')) return;
+    const last = turns[turns.length - 1];
+    if (last?.role === turn.role) turns[turns.length - 1] = { ...last, text: `${last.text}\n\n${turn.text}` };
+    else turns.push(turn);
+  });
+  // A trailing user turn never got its answer; the next message follows it
+  if (turns[turns.length - 1]?.role === 'user') turns.pop();
+  return turns;
+}
+
+export const cancelledError = () => new DOMException('Turn cancelled', 'AbortError');
+
+export interface LlmProvider {
+  createSession(options: SessionOptions): ChatSession;
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  endpoint: string;
+  model: string;
+  apiKey: string;
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GUARD_NAME, LoopGuard, SandboxTimeoutError, instrumentLoops } from './loopGuard';
+
+const instrument = (code: string) => instrumentLoops(code).code;
+
+// Run instrumented code against a guard
+const runGuarded = (code: string, guard: LoopGuard, budgetMs = 10) =>
+  guard.run(budgetMs, 'evaluation', () => new Function(GUARD_NAME, instrument(code))(guard.check));
+
+// performance.now() that moves on by a millisecond on every call
+const tickingClock = () => {
+  let now = 0;
+  return vi.spyOn(performance, 'now').mockImplementation(() => now++);
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('instrumentLoops', () => {
+  it('guards while loops', () => {
+    expect(instrument('while (true) {}')).toBe(`while (${GUARD_NAME}(1) && (true)) {}`);
+  });
+
+  it('guards the condition of a for loop, or fills in an empty one', () => {
+    expect(instrument('for (let i = 0; i < 4; i++) {}')).toBe(`for (let i = 0; ${GUARD_NAME}(1) && ( i < 4); i++) {}`);
+    expect(instrument('for (;;) {}')).toBe(`for (; ${GUARD_NAME}(1);) {}`);
+  });
+
+  it('guards do...while loops, with the line they are on', () => {
+    expect(instrument('let n = 0;\ndo { n++; } while (n < 3);')).toBe(`let n = 0;\ndo { n++; } while (${GUARD_NAME}(2) && (n < 3));`);
+  });
+
+  it('leaves for...in, for...of and properties named like loops alone', () => {
+    const code = 'for (const x of xs) {}\nfor (const k in o) {}\nobj.while(1);';
+    expect(instrument(code)).toBe(code);
+  });
+
+  it('ignores loops in strings, comments and template text', () => {
+    const code = '"while (true)"; // for (;;)\n`while (x) ${y}`;';
+    expect(instrument(code)).toBe(code);
+  });
+
+  it('guards loops inside template expressions', () => {
+    expect(instrument('`${(() => { while (a) {} return 1; })()}`'))
+      .toBe(`\`\${(() => { while (${GUARD_NAME}(1) && (a)) {} return 1; })()}\``);
+  });
+
+  it('tells a regex from a division after a closing paren', () => {
+    // A division: the `while` after it is real code
+    expect(instrument('x = (a) / 2; while (b) {}')).toBe(`x = (a) / 2; while (${GUARD_NAME}(1) && (b)) {}`);
+    // A regex: its text is not code
+    const regex = 'if (x) /while (y)/.test(s);';
+    expect(instrument(regex)).toBe(regex);
+  });
+
+  it('applies insertions from other passes after the guard at the same spot', () => {
+    const { code, inserts } = instrumentLoops('while (x) {}', [{ at: 7, text: 'f(' }, { at: 8, text: ')' }]);
+    expect(code).toBe(`while (${GUARD_NAME}(1) && (f(x))) {}`);
+    expect(inserts.map((insert) => insert.at)).toEqual([7, 7, 8, 8]);
+  });
+
+  it('keeps working code working', () => {
+    const guard = new LoopGuard(1000);
+    const sum = runGuarded('let s = 0; for (let i = 0; i < 5; i++) s += i; return s;', guard, 1000);
+    expect(sum).toBe(10);
+  });
+});
+
+describe('LoopGuard', () => {
+  it('ends a runaway while(true) once the budget is spent', () => {
+    tickingClock();
+    expect(() => runGuarded('while (true) {}', new LoopGuard(100)))
+      .toThrow(new SandboxTimeoutError('Runaway loop at line 1 in evaluation: exceeded its 10ms budget'));
+  });
+
+  it('ends a runaway for(;;)', () => {
+    tickingClock();
+    expect(() => runGuarded('\nfor (;;) {}', new LoopGuard(100))).toThrow(/Runaway loop at line 2 in evaluation/);
+  });
+
+  it('reports code that overran its budget without looping', () => {
+    const clock = vi.spyOn(performance, 'now').mockReturnValueOnce(0).mockReturnValue(25);
+    expect(() => new LoopGuard(100).run(10, 'loop bass', () => 'done'))
+      .toThrow(new SandboxTimeoutError('loop bass took 25ms, over its 10ms budget'));
+    expect(clock).toHaveBeenCalled();
+  });
+
+  it('keeps the outer deadline for nested runs', () => {
+    tickingClock();
+    const guard = new LoopGuard(100);
+    expect(() => guard.run(5, 'evaluation', () => guard.run(1000, 'inner', () => {
+      while (guard.check(1)) { /* spin */ }
+    }))).toThrow(/in evaluation: exceeded its 5ms budget/);
+  });
+});
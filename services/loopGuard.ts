@@ -0,0 +1,256 @@
+// Runaway-code protection for user sketches. Every for/while loop in user code
+// gets a guard call injected into its condition; the guard throws once the
+// current time budget is spent, so an accidental while(true) ends up in the
+// KERNEL_LOG instead of freezing the tab and the audio with it.
+
+export const GUARD_NAME = '__guard';
+
+export class SandboxTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxTimeoutError';
+  }
+}
+
+interface Token {
+  type: 'word' | 'punct' | 'string' | 'template' | 'regex' | 'comment';
+  text: string;
+  start: number;
+  end: number;
+  // A ")" that closes the head of an if, for, while or with
+  closesHead?: boolean;
+}
+
+// Words whose parenthesised head is followed by a statement, where "/" starts a regex
+const HEAD_WORDS = new Set(['if', 'for', 'while', 'with']);
+
+// Words after which a "/" starts a regex rather than a division
+const REGEX_AFTER_WORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+
+// Just enough of a JS lexer to tell code apart from strings, comments,
+// template literals and regexes.
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  // Brace depth at which each open template literal's ${ started
+  const templates: number[] = [];
+  // For each open "(", whether it starts the head of an if, for, while or with
+  const parens: boolean[] = [];
+  let braces = 0;
+  let i = 0;
+
+  const lastSignificant = () => {
+    for (let t = tokens.length - 1; t >= 0; t--) {
+      if (tokens[t].type !== 'comment') return tokens[t];
+    }
+    return null;
+  };
+
+  // Scan template text from i (just past ` or }) to the closing ` or ${
+  const readTemplate = (start: number) => {
+    while (i < code.length) {
+      if (code[i] === '\\') { i += 2; continue; }
+      if (code[i] === '`') { i++; break; }
+      if (code[i] === '$' && code[i + 1] === '{') {
+        i += 2;
+        templates.push(braces);
+        braces++;
+        break;
+      }
+      i++;
+    }
+    tokens.push({ type: 'template', text: code.slice(start, i), start, end: i });
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '/' && code[i + 1] === '/') {
+      while (i < code.length && code[i] !== '\n') i++;
+      tokens.push({ type: 'comment', text: code.slice(start, i), start, end: i });
+    } else if (ch === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      i = close === -1 ? code.length : close + 2;
+      tokens.push({ type: 'comment', text: code.slice(start, i), start, end: i });
+    } else if (ch === '"' || ch === "'") {
+      i++;
+      while (i < code.length && code[i] !== ch && code[i] !== '\n') {
+        i += code[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      tokens.push({ type: 'string', text: code.slice(start, i), start, end: i });
+    } else if (ch === '`') {
+      i++;
+      readTemplate(start);
+    } else if (ch === '}' && templates.length > 0 && templates[templates.length - 1] === braces - 1) {
+      // End of a ${...} expression: back into template text
+      templates.pop();
+      braces--;
+      i++;
+      readTemplate(start);
+    } else if (/[A-Za-z_$0-9]/.test(ch)) {
+      while (i < code.length && /[A-Za-z_$0-9]/.test(code[i])) i++;
+      tokens.push({ type: 'word', text: code.slice(start, i), start, end: i });
+    } else if (ch === '/') {
+      const prev = lastSignificant();
+      const isRegex = !prev
+        || (prev.type === 'punct' && ((prev.text !== ')' && prev.text !== ']') || !!prev.closesHead))
+        || (prev.type === 'word' && REGEX_AFTER_WORDS.has(prev.text));
+      if (isRegex) {
+        i++;
+        let inClass = false;
+        while (i < code.length && code[i] !== '\n') {
+          if (code[i] === '\\') { i += 2; continue; }
+          if (code[i] === '[') inClass = true;
+          else if (code[i] === ']') inClass = false;
+          else if (code[i] === '/' && !inClass) break;
+          i++;
+        }
+        i++;
+        while (i < code.length && /[a-z]/.test(code[i])) i++;
+        tokens.push({ type: 'regex', text: code.slice(start, i), start, end: i });
+      } else {
+        i++;
+        tokens.push({ type: 'punct', text: ch, start, end: i });
+      }
+    } else {
+      if (ch === '{') braces++;
+      if (ch === '}') braces--;
+      const token: Token = { type: 'punct', text: ch, start, end: start + 1 };
+      if (ch === '(') {
+        const prev = lastSignificant();
+        parens.push(!!prev && prev.type === 'word' && HEAD_WORDS.has(prev.text));
+      } else if (ch === ')') {
+        token.closesHead = parens.pop();
+      }
+      i++;
+      tokens.push(token);
+    }
+  }
+  return tokens;
+}
+
+const lineAt = (code: string, index: number) => code.slice(0, index).split('\n').length;
+
+// Text added at an offset of the original source
+export interface Insertion {
+  at: number;
+  text: string;
+}
+
+export interface InstrumentedCode {
+  code: string;
+  // Kept so positions in the instrumented code can be mapped back
+  inserts: Insertion[];
+}
+
+// Inject `__guard(line)` into the condition of every for and while loop
+// (do...while included). for...in/of iterate finite collections and are left
+// alone. Insertions from other passes over the same code are applied too,
+// after the guard text at the same position.
+export function instrumentLoops(code: string, extra: Insertion[] = []): InstrumentedCode {
+  const tokens = tokenize(code).filter((t) => t.type !== 'comment');
+  const inserts: Insertion[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'word' || (token.text !== 'for' && token.text !== 'while')) return;
+    const prev = tokens[index - 1];
+    if (prev && prev.type === 'punct' && prev.text === '.') return;
+    const open = tokens[index + 1];
+    if (!open || open.type !== 'punct' || open.text !== '(') return;
+
+    // Find the matching ")" and the top-level semicolons of a classic for
+    let depth = 0;
+    let close = -1;
+    const semicolons: Token[] = [];
+    for (let j = index + 1; j < tokens.length; j++) {
+      const t = tokens[j];
+      if (t.type !== 'punct') continue;
+      if (t.text === '(' || t.text === '[' || t.text === '{') depth++;
+      else if (t.text === ')' || t.text === ']' || t.text === '}') depth--;
+      else if (t.text === ';' && depth === 1) semicolons.push(t);
+      if (depth === 0) { close = j; break; }
+    }
+    if (close === -1) return;
+
+    const guard = `${GUARD_NAME}(${lineAt(code, token.start)})`;
+    if (token.text === 'while') {
+      inserts.push({ at: open.end, text: `${guard} && (` });
+      inserts.push({ at: tokens[close].start, text: ')' });
+    } else if (semicolons.length === 2) {
+      const [first, second] = semicolons;
+      if (code.slice(first.end, second.start).trim() === '') {
+        inserts.push({ at: first.end, text: ` ${guard}` });
+      } else {
+        inserts.push({ at: first.end, text: ` ${guard} && (` });
+        inserts.push({ at: second.start, text: ')' });
+      }
+    }
+  });
+
+  // A stable sort keeps insertions at the same position in the order added
+  const ordered = [...inserts, ...extra].sort((a, b) => a.at - b.at);
+  let result = '';
+  let copied = 0;
+  ordered.forEach(({ at, text }) => {
+    result += code.slice(copied, at) + text;
+    copied = at;
+  });
+  return { code: result + code.slice(copied), inserts: ordered };
+}
+
+// Time budgets for guarded code. run() gives a function a budget; guard
+// checks made outside any run() (raw Tone callbacks, promise handlers) get an
+// implicit budget per task so they can't hang the page either.
+export class LoopGuard {
+  private deadline = Infinity;
+  private budget = 0;
+  private label = '';
+  private active = 0;
+  private idleDeadline: number | null = null;
+
+  constructor(private idleBudgetMs: number) {}
+
+  // Called from instrumented loop conditions
+  public check = (line: number): boolean => {
+    const now = performance.now();
+    if (this.active === 0) {
+      if (this.idleDeadline === null) {
+        this.idleDeadline = now + this.idleBudgetMs;
+        setTimeout(() => { this.idleDeadline = null; }, 0);
+      }
+      if (now > this.idleDeadline) {
+        throw new SandboxTimeoutError(`Runaway loop at line ${line}: exceeded ${this.idleBudgetMs}ms`);
+      }
+    } else if (now > this.deadline) {
+      throw new SandboxTimeoutError(`Runaway loop at line ${line} in ${this.label}: exceeded its ${this.budget}ms budget`);
+    }
+    return true;
+  };
+
+  // Run fn with a budget. Loops that outlive it throw; code that overruns
+  // without looping is reported once it returns.
+  public run<T>(budgetMs: number, label: string, fn: () => T): T {
+    // Nested runs keep the outer, tighter deadline
+    if (this.active > 0) return fn();
+
+    const started = performance.now();
+    this.deadline = started + budgetMs;
+    this.budget = budgetMs;
+    this.label = label;
+    this.active++;
+    try {
+      const result = fn();
+      const elapsed = performance.now() - started;
+      if (elapsed > budgetMs) {
+        throw new SandboxTimeoutError(`${label} took ${Math.round(elapsed)}ms, over its ${budgetMs}ms budget`);
+      }
+      return result;
+    } finally {
+      this.active--;
+      this.deadline = Infinity;
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as Tone from 'tone';
+import { LoopDefinition, LoopRegistry } from './loopRegistry';
+
+// Tone.Time needs an audio context; the registry only asks it for ticks
+const TICKS: Record<string, number> = { '1m': 768, '4n': 192 };
+vi.mock('tone', async (original) => ({
+  ...(await original<typeof import('tone')>()),
+  Time: (value: string) => ({ toTicks: () => TICKS[value] }),
+}));
+
+interface Scheduled {
+  callback: (time: number) => void;
+  startTick: number;
+}
+
+// Just enough Transport for the registry, with time measured in ticks
+class FakeTransport {
+  public ticks = 0;
+  public events: Map<number, Scheduled> = new Map();
+  private nextId = 0;
+
+  scheduleRepeat(callback: (time: number) => void, _interval: string, start: string) {
+    this.events.set(this.nextId, { callback, startTick: parseInt(start) });
+    return this.nextId++;
+  }
+
+  scheduleOnce(callback: (time: number) => void, at: string) {
+    return this.scheduleRepeat(callback, '', at);
+  }
+
+  clear(id: number) {
+    this.events.delete(id);
+  }
+
+  getTicksAtTime(time: number) {
+    return time;
+  }
+
+  // Fire every event due at a tick, as the Transport would
+  fire(tick: number) {
+    Array.from(this.events.values())
+      .filter((event) => event.startTick <= tick)
+      .forEach((event) => event.callback(tick));
+  }
+}
+
+const setup = () => {
+  const transport = new FakeTransport();
+  const loops = new LoopRegistry(transport as unknown as Tone.TransportInstance);
+  const log = vi.fn();
+  const definitions = (...defs: Array<[string, () => void]>) =>
+    new Map<string, LoopDefinition>(defs.map(([name, callback]) => [name, { name, interval: '4n', callback }]));
+  return { transport, loops, log, definitions };
+};
+
+describe('LoopRegistry.kill', () => {
+  it('stops the loop and forgets its mute and solo', () => {
+    const { transport, loops, log, definitions } = setup();
+    const bass = vi.fn();
+    loops.startAll(definitions(['bass', bass]), log);
+    loops.mute('bass');
+    loops.solo('bass');
+
+    expect(loops.kill('bass')).toBe(true);
+    expect(loops.has('bass')).toBe(false);
+    transport.fire(0);
+    expect(bass).not.toHaveBeenCalled();
+
+    const next = vi.fn();
+    loops.startAll(definitions(['bass', next]), log);
+    expect(loops.list()[0]).toMatchObject({ muted: false, soloed: false, audible: true });
+    transport.fire(0);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('stops an older version still playing up to its hand-over', () => {
+    const { transport, loops, log, definitions } = setup();
+    const old = vi.fn();
+    loops.startAll(definitions(['bass', old]), log);
+    transport.ticks = 100;
+    loops.hotSwap(definitions(['bass', vi.fn()]), '1m', log);
+
+    loops.kill('bass');
+    transport.fire(500);
+    expect(old).not.toHaveBeenCalled();
+  });
+
+  it('stops a loop a full run dropped while it winds down', () => {
+    const { transport, loops, log, definitions } = setup();
+    const old = vi.fn();
+    loops.startAll(definitions(['bass', old]), log);
+    transport.ticks = 100;
+    loops.hotSwap(new Map(), '1m', log);
+
+    expect(loops.kill('bass')).toBe(true);
+    transport.fire(500);
+    expect(old).not.toHaveBeenCalled();
+  });
+
+  it('reports loops it does not know', () => {
+    const { loops } = setup();
+    expect(loops.kill('nothing')).toBe(false);
+  });
+});
+
+describe('LoopRegistry.hotSwap', () => {
+  it('hands over on the next boundary and returns the last hand-over tick', () => {
+    const { transport, loops, log, definitions } = setup();
+    loops.startAll(definitions(['bass', vi.fn()]), log);
+    transport.ticks = 100;
+    expect(loops.hotSwap(definitions(['bass', vi.fn()]), '1m', log)).toBe(768);
+  });
+});
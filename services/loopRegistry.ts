@@ -0,0 +1,253 @@
+import * as Tone from 'tone';
+import { LoopInfo, SourceLocation } from '../types';
+
+// Consecutive failing ticks (errors or budget overruns) before a loop is switched off
+const MAX_CONSECUTIVE_FAILURES = 4;
+
+export type LoopCallback = (time: number) => void;
+// source names the loop or buffer a message came from, when it came from a sketch
+export type LogCallback = (msg: string, type: 'debug'|'info'|'warn'|'error', location?: SourceLocation, source?: string) => void;
+
+export interface LoopDefinition {
+  name: string;
+  interval: string;
+  callback: LoopCallback;
+}
+
+// A named loop as it lives on the Transport. Re-defining a loop creates a new
+// slot that takes over at a quantum boundary while the old one winds down.
+interface LoopSlot {
+  name: string;
+  interval: string;
+  callback: LoopCallback;
+  eventId: number;
+  startTick: number;
+  endTick: number;
+  state: LoopInfo['state'];
+  lastError?: string;
+  failures: number;
+}
+
+export class LoopRegistry {
+  private slots: Map<string, LoopSlot> = new Map();
+  // Replaced or stopped slots still playing up to their hand-over
+  private retiring: Set<LoopSlot> = new Set();
+
+  // Mute and solo are keyed by name so they survive re-evaluation
+  private muted: Set<string> = new Set();
+  private soloed: Set<string> = new Set();
+
+  private listeners: Set<() => void> = new Set();
+
+  // Every callback that ran cleanly, with its scheduled time, e.g. for the loop grid
+  public onFire?: (name: string, time: number) => void;
+
+  // Offline renders pass their own context's Transport
+  constructor(private transport: Tone.TransportInstance = Tone.getTransport()) {}
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): LoopInfo[] {
+    return Array.from(this.slots.values()).map((slot) => ({
+      name: slot.name,
+      interval: slot.interval,
+      state: slot.state,
+      muted: this.muted.has(slot.name),
+      soloed: this.soloed.has(slot.name),
+      audible: this.isAudible(slot.name),
+      lastError: slot.lastError,
+    }));
+  }
+
+  // Transport position, in ticks, of a scheduled callback time
+  public ticksAt(time: number): number {
+    return this.transport.getTicksAtTime(time);
+  }
+
+  public has(name: string): boolean {
+    return this.slots.has(name);
+  }
+
+  // Schedule a fresh set of loops from the top. Assumes the Transport was cancelled.
+  public startAll(definitions: Map<string, LoopDefinition>, logCallback: LogCallback) {
+    this.slots.clear();
+    this.retiring.clear();
+    definitions.forEach((def) => {
+      logCallback(`Scheduling loop: ${def.name} @ ${def.interval}`, 'info');
+      this.slots.set(def.name, this.scheduleSlot(def, 0, logCallback));
+    });
+    this.notify();
+  }
+
+  // Re-evaluation while playing: swap, add and remove loops on the next
+  // quantum boundary without touching the Transport. A partial evaluation
+  // (a selection or block) keeps loops it does not mention. Returns the tick
+  // of the last hand-over, after which no old loop fires.
+  public hotSwap(definitions: Map<string, LoopDefinition>, quantum: string, logCallback: LogCallback, partial = false): number {
+    const boundary = this.nextBoundary(quantum);
+    let handover = boundary;
+
+    this.slots.forEach((slot, name) => {
+      if (partial || definitions.has(name)) return;
+      logCallback(`Stopping loop: ${name} @ ${quantum}`, 'info');
+      this.retireSlot(slot, boundary);
+      this.slots.delete(name);
+    });
+
+    definitions.forEach((def) => {
+      const previous = this.slots.get(def.name);
+      const startTick = this.alignTick(boundary, def.interval);
+      handover = Math.max(handover, startTick);
+      if (previous) {
+        logCallback(`Hot-swapping loop: ${def.name} @ ${def.interval}`, 'info');
+        this.retireSlot(previous, startTick);
+      } else {
+        logCallback(`Scheduling loop: ${def.name} @ ${def.interval}`, 'info');
+      }
+      this.slots.set(def.name, this.scheduleSlot(def, startTick, logCallback));
+    });
+    this.notify();
+    return handover;
+  }
+
+  // Forget every loop. The caller is responsible for cancelling the Transport.
+  public clear() {
+    this.slots.clear();
+    this.retiring.clear();
+    this.notify();
+  }
+
+  // Remove a loop immediately instead of waiting for a boundary, along with
+  // any older version of it still winding down
+  public kill(name: string): boolean {
+    const slots = Array.from(this.retiring).filter((slot) => slot.name === name);
+    const live = this.slots.get(name);
+    if (live) slots.push(live);
+    if (slots.length === 0) return false;
+
+    slots.forEach((slot) => {
+      this.transport.clear(slot.eventId);
+      this.retiring.delete(slot);
+    });
+    this.slots.delete(name);
+    this.muted.delete(name);
+    this.soloed.delete(name);
+    this.notify();
+    return true;
+  }
+
+  public mute(...names: string[]) {
+    names.forEach((name) => this.muted.add(name));
+    this.notify();
+  }
+
+  // With no names, clears every mute and solo
+  public unmute(...names: string[]) {
+    if (names.length === 0) {
+      this.muted.clear();
+      this.soloed.clear();
+    } else {
+      names.forEach((name) => this.muted.delete(name));
+    }
+    this.notify();
+  }
+
+  public solo(...names: string[]) {
+    names.forEach((name) => this.soloed.add(name));
+    this.notify();
+  }
+
+  public unsolo(...names: string[]) {
+    if (names.length === 0) {
+      this.soloed.clear();
+    } else {
+      names.forEach((name) => this.soloed.delete(name));
+    }
+    this.notify();
+  }
+
+  public isAudible(name: string): boolean {
+    if (this.muted.has(name)) return false;
+    return this.soloed.size === 0 || this.soloed.has(name);
+  }
+
+  private scheduleSlot(def: LoopDefinition, startTick: number, logCallback: LogCallback): LoopSlot {
+    const slot: LoopSlot = {
+      name: def.name,
+      interval: def.interval,
+      callback: def.callback,
+      eventId: -1,
+      startTick,
+      endTick: Infinity,
+      state: 'pending',
+      failures: 0,
+    };
+
+    slot.eventId = this.transport.scheduleRepeat((time) => {
+      // A retired slot may still have ticks queued past its hand-over point
+      if (this.transport.getTicksAtTime(time) >= slot.endTick) return;
+      if (!this.isAudible(slot.name)) return;
+      if (slot.state === 'disabled') return;
+      try {
+        slot.callback(time);
+        slot.failures = 0;
+        this.setState(slot, 'playing');
+        this.onFire?.(slot.name, time);
+      } catch (err: any) {
+        console.error(err);
+        // Runtime errors inside loop are async, hard to catch in the initial runCode Promise
+        // But we log them for the user
+        slot.lastError = err.message;
+        slot.failures++;
+        logCallback(`Runtime Error inside loop '${slot.name}': ${err.message}`, 'error', err.location, slot.name);
+
+        // A loop that keeps failing would flood the log and starve the audio thread
+        if (slot.failures >= MAX_CONSECUTIVE_FAILURES) {
+          this.transport.clear(slot.eventId);
+          this.setState(slot, 'disabled');
+          logCallback(`Loop '${slot.name}' disabled after ${slot.failures} consecutive failures. Fix it and re-run to bring it back.`, 'error');
+        } else {
+          this.setState(slot, 'error');
+        }
+      }
+    }, def.interval, `${startTick}i`);
+
+    return slot;
+  }
+
+  // Let a slot play up to endTick, then drop its Transport event
+  private retireSlot(slot: LoopSlot, endTick: number) {
+    slot.endTick = endTick;
+    this.retiring.add(slot);
+    this.transport.scheduleOnce(() => {
+      this.transport.clear(slot.eventId);
+      this.retiring.delete(slot);
+    }, `${endTick}i`);
+  }
+
+  private setState(slot: LoopSlot, state: LoopInfo['state']) {
+    if (slot.state === state) return;
+    slot.state = state;
+    // Only the live slot for a name is worth re-rendering
+    if (this.slots.get(slot.name) === slot) this.notify();
+  }
+
+  // First tick of the next quantum, strictly after the current position
+  private nextBoundary(quantum: string): number {
+    const quantumTicks = Tone.Time(quantum).toTicks();
+    return (Math.floor(this.transport.ticks / quantumTicks) + 1) * quantumTicks;
+  }
+
+  // Keep loops in phase with the grid they would have had since bar one
+  private alignTick(tick: number, interval: string): number {
+    const intervalTicks = Tone.Time(interval).toTicks();
+    return Math.ceil(tick / intervalTicks) * intervalTicks;
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,190 @@
+import * as Tone from 'tone';
+import { encodeMidi, MidiNote, MidiTempo } from './midiFile';
+import { quartersPerBar } from './transport';
+import { TimeSignature } from '../types';
+
+// Unpitched voices land on General MIDI drum notes, channel 10
+const DRUM_NOTES: Record<string, number> = {
+  kick: 36,
+  snare: 38,
+  hat: 42,
+};
+const DRUM_CHANNEL = 9;
+
+const TRIGGER_METHODS = ['triggerAttackRelease', 'triggerAttack', 'triggerRelease'] as const;
+
+interface HeldNote {
+  note: number;
+  tick: number;
+  velocity: number;
+}
+
+// Records what instruments are asked to play, in Transport ticks, by
+// temporarily wrapping their trigger methods.
+export class MidiCapture {
+  private instruments: Map<string, Tone.ToneAudioNode> = new Map();
+  private notes: Map<string, MidiNote[]> = new Map();
+  private held: Map<string, HeldNote[]> = new Map();
+  private tempos: MidiTempo[] = [];
+  private startTick = 0;
+  private timeSignature: TimeSignature = [4, 4];
+  private capturing = false;
+
+  // Poly and mono synths call their own triggerAttack/triggerRelease from
+  // triggerAttackRelease; only the outermost call gets recorded.
+  private depth = 0;
+
+  constructor(private transport: Tone.TransportInstance = Tone.getTransport()) {}
+
+  public get isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  public noteCount(): number {
+    let count = 0;
+    this.notes.forEach((notes) => { count += notes.length; });
+    return count;
+  }
+
+  public start(instruments: Record<string, Tone.ToneAudioNode>, timeSignature: TimeSignature = [4, 4]) {
+    if (this.capturing) return;
+    this.capturing = true;
+    this.notes.clear();
+    this.held.clear();
+    this.timeSignature = timeSignature;
+
+    // Start on the current bar line so the file lines up with the grid
+    const ticksPerBar = this.transport.PPQ * quartersPerBar(timeSignature);
+    this.startTick = Math.floor(this.transport.ticks / ticksPerBar) * ticksPerBar;
+    this.tempos = [{ tick: 0, bpm: this.transport.bpm.value }];
+
+    Object.entries(instruments).forEach(([name, instrument]) => {
+      this.instruments.set(name, instrument);
+      this.notes.set(name, []);
+      this.held.set(name, []);
+      this.wrap(name, instrument);
+    });
+  }
+
+  // Record a tempo change at the current position
+  public tempo(bpm: number) {
+    if (!this.capturing) return;
+    this.tempos.push({ tick: Math.max(0, this.transport.ticks - this.startTick), bpm });
+  }
+
+  public stop(): Uint8Array {
+    if (!this.capturing) throw new Error("MIDI capture is not running");
+
+    // Anything still held ends where the capture ended
+    const endTick = this.transport.ticks;
+    this.held.forEach((_, name) => this.releaseHeld(name, endTick));
+
+    this.instruments.forEach((instrument) => {
+      TRIGGER_METHODS.forEach((method) => { delete (instrument as any)[method]; });
+    });
+    this.instruments.clear();
+    this.capturing = false;
+
+    // Melodic tracks take channels in order, stepping around the drum channel
+    let nextChannel = 0;
+    const tracks = Array.from(this.notes.entries())
+      .filter(([, notes]) => notes.length > 0)
+      .map(([name, notes]) => {
+        if (Object.hasOwn(DRUM_NOTES, name)) return { name, channel: DRUM_CHANNEL, notes };
+        if (nextChannel === DRUM_CHANNEL) nextChannel++;
+        return { name, channel: nextChannel++ % 16, notes };
+      });
+
+    return encodeMidi({
+      ppq: this.transport.PPQ,
+      tempos: this.tempos,
+      timeSignature: this.timeSignature,
+      tracks,
+    });
+  }
+
+  // Shadow the prototype methods with recording versions; deleting the
+  // instance properties puts the originals back.
+  private wrap(name: string, instrument: Tone.ToneAudioNode) {
+    const target = instrument as any;
+    TRIGGER_METHODS.forEach((method) => {
+      const original = target[method];
+      if (typeof original !== 'function') return;
+      target[method] = (...args: any[]) => {
+        if (this.depth === 0) {
+          try {
+            this.record(name, instrument, method, args);
+          } catch (err) {
+            // Never let capture break playback
+            console.error(err);
+          }
+        }
+        this.depth++;
+        try {
+          return original.apply(target, args);
+        } finally {
+          this.depth--;
+        }
+      };
+    });
+  }
+
+  private record(name: string, instrument: Tone.ToneAudioNode, method: typeof TRIGGER_METHODS[number], args: any[]) {
+    // NoiseSynth has no note argument
+    const unpitched = instrument instanceof Tone.NoiseSynth;
+    const rest = unpitched ? args : args.slice(1);
+    const notes = unpitched ? [] : (Array.isArray(args[0]) ? args[0] : [args[0]]);
+
+    const tickAt = (time: Tone.Unit.Time | undefined) =>
+      this.transport.getTicksAtTime(instrument.toSeconds(time)) - this.startTick;
+    const velocityOf = (velocity: number | undefined) =>
+      Math.max(1, Math.min(127, Math.round((velocity ?? 1) * 127)));
+
+    if (method === 'triggerAttackRelease') {
+      const [duration, time, velocity] = rest;
+      const tick = tickAt(time);
+      if (tick < 0) return;
+      // PolySynth takes one duration per note as well as a shared one
+      const lengthOf = (index: number) => instrument.toTicks(Array.isArray(duration) ? duration[index] : duration);
+      this.midiNotes(name, notes).forEach((note, index) => {
+        this.notes.get(name)!.push({ note, tick, duration: lengthOf(index), velocity: velocityOf(velocity) });
+      });
+    } else if (method === 'triggerAttack') {
+      const [time, velocity] = rest;
+      const tick = tickAt(time);
+      if (tick < 0) return;
+      // Monophonic voices cut the previous note
+      if (!(instrument instanceof Tone.PolySynth)) this.releaseHeld(name, tick + this.startTick);
+      this.midiNotes(name, notes).forEach((note) => {
+        this.held.get(name)!.push({ note, tick, velocity: velocityOf(velocity) });
+      });
+    } else {
+      // PolySynth.triggerRelease(notes, time); everything else (time)
+      const isPoly = instrument instanceof Tone.PolySynth;
+      const time = isPoly ? args[1] : args[0];
+      const only = isPoly ? this.midiNotes(name, Array.isArray(args[0]) ? args[0] : [args[0]]) : undefined;
+      this.releaseHeld(name, tickAt(time) + this.startTick, only);
+    }
+  }
+
+  private midiNotes(name: string, notes: Tone.Unit.Frequency[]): number[] {
+    if (Object.hasOwn(DRUM_NOTES, name)) return [DRUM_NOTES[name]];
+    return notes.map((note) => Math.round(Tone.Frequency(note).toMidi()));
+  }
+
+  // End held notes at an absolute Transport tick
+  private releaseHeld(name: string, absoluteTick: number, only?: number[]) {
+    const held = this.held.get(name);
+    if (!held) return;
+    const tick = absoluteTick - this.startTick;
+    const remaining: HeldNote[] = [];
+    held.forEach((h) => {
+      if (only && !only.includes(h.note)) {
+        remaining.push(h);
+      } else {
+        this.notes.get(name)!.push({ note: h.note, tick: h.tick, duration: Math.max(1, tick - h.tick), velocity: h.velocity });
+      }
+    });
+    this.held.set(name, remaining);
+  }
+}
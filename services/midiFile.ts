@@ -0,0 +1,101 @@
+// Standard MIDI File (Type 1) writer. Track 0 carries the tempo map, every
+// other track holds the notes of one instrument.
+
+export interface MidiNote {
+  note: number;
+  tick: number;
+  duration: number;
+  velocity: number;
+}
+
+export interface MidiTrack {
+  name: string;
+  channel: number;
+  notes: MidiNote[];
+}
+
+export interface MidiTempo {
+  tick: number;
+  bpm: number;
+}
+
+export interface MidiSong {
+  // Ticks per quarter note
+  ppq: number;
+  tempos: MidiTempo[];
+  // Numerator and denominator, e.g. [4, 4]
+  timeSignature: [number, number];
+  tracks: MidiTrack[];
+}
+
+interface TrackEvent {
+  tick: number;
+  // Note-offs sort before note-ons on the same tick
+  order: number;
+  data: number[];
+}
+
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  value >>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+    value >>= 7;
+  }
+  return bytes;
+};
+
+const text = (value: string): number[] => Array.from(new TextEncoder().encode(value));
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const metaEvent = (type: number, data: number[]) => [0xff, type, ...variableLength(data.length), ...data];
+
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach((event) => {
+    body.push(...variableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  body.push(0, ...metaEvent(0x2f, [])); // end of track
+  return [...text('MTrk'), ...uint32(body.length), ...body];
+}
+
+export function encodeMidi(song: MidiSong): Uint8Array {
+  const [numerator, denominator] = song.timeSignature;
+
+  const conductor: TrackEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, text('tempo')) },
+    { tick: 0, order: 0, data: metaEvent(0x58, [numerator, Math.log2(denominator), 24, 8]) },
+    ...song.tempos.map((tempo) => {
+      const microseconds = Math.round(60000000 / tempo.bpm);
+      return {
+        tick: Math.max(0, Math.round(tempo.tick)),
+        order: 0,
+        data: metaEvent(0x51, [(microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff]),
+      };
+    }),
+  ];
+
+  const tracks = song.tracks.map((track) => {
+    const events: TrackEvent[] = [{ tick: 0, order: 0, data: metaEvent(0x03, text(track.name)) }];
+    track.notes.forEach((note) => {
+      const start = Math.max(0, Math.round(note.tick));
+      const end = Math.max(start + 1, Math.round(note.tick + note.duration));
+      events.push({ tick: start, order: 2, data: [0x90 | track.channel, note.note, note.velocity] });
+      events.push({ tick: end, order: 1, data: [0x80 | track.channel, note.note, 0] });
+    });
+    return encodeTrack(events);
+  });
+
+  const header = [
+    ...text('MThd'), ...uint32(6),
+    0, 1, // format 1
+    0, tracks.length + 1,
+    (song.ppq >> 8) & 0xff, song.ppq & 0xff,
+  ];
+
+  return new Uint8Array([...header, ...encodeTrack(conductor), ...tracks.flat()]);
+}
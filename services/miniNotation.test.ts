@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { PatternSyntaxError, euclid, parsePattern, queryPattern } from './miniNotation';
+
+const values = (source: string, cycle: number) => queryPattern(parsePattern(source), cycle).map((event) => event.value);
+const begins = (source: string, cycle = 0) => queryPattern(parsePattern(source), cycle).map((event) => event.begin);
+
+const syntaxError = (source: string): PatternSyntaxError => {
+  try {
+    parsePattern(source);
+  } catch (err) {
+    if (err instanceof PatternSyntaxError) return err;
+    throw err;
+  }
+  throw new Error(`'${source}' parsed`);
+};
+
+describe('parsePattern errors', () => {
+  it('report the column of the problem', () => {
+    expect(syntaxError('c2 $').message).toBe("Unexpected character '$' at column 4");
+    expect(syntaxError('c2 [e2').message).toBe("Missing closing ']' at column 7");
+    expect(syntaxError('a(3,x)').message).toBe('Expected a whole number at column 5');
+    expect(syntaxError('[]').message).toBe('Empty sequence at column 2');
+  });
+
+  it('keep the position for editor markers', () => {
+    const err = syntaxError('a b ]');
+    expect(err.position).toBe(4);
+    expect(err.source).toBe('a b ]');
+  });
+
+  it('reject layers inside an alternation', () => {
+    expect(syntaxError('<a, b>').message).toBe("Alternation '<...>' cannot contain ',' at column 3");
+  });
+});
+
+describe('queryPattern', () => {
+  it('splits the cycle between steps and subdivisions', () => {
+    const events = queryPattern(parsePattern('a ~ [b c]'), 0);
+    expect(events.map((event) => event.value)).toEqual(['a', 'b', 'c']);
+    [[0, 1 / 3], [2 / 3, 1 / 6], [5 / 6, 1 / 6]].forEach(([begin, duration], i) => {
+      expect(events[i].begin).toBeCloseTo(begin);
+      expect(events[i].duration).toBeCloseTo(duration);
+    });
+  });
+
+  it('alternates one option per cycle', () => {
+    expect([0, 1, 2].map((cycle) => values('<a b> c', cycle))).toEqual([['a', 'c'], ['b', 'c'], ['a', 'c']]);
+  });
+
+  it('advances nested alternations each time they are picked', () => {
+    expect([0, 1, 2, 3].map((cycle) => values('<a <b c>>', cycle))).toEqual([['a'], ['b'], ['a'], ['c']]);
+  });
+
+  it('steps polymeter layers at the first layer\'s rate', () => {
+    const cycle0 = queryPattern(parsePattern('{a b c, d e}'), 0);
+    expect(cycle0.filter((event) => 'de'.includes(event.value)).map((event) => event.value)).toEqual(['d', 'e', 'd']);
+    expect(values('{a b c, d e}', 1).filter((value) => 'de'.includes(value))).toEqual(['e', 'd', 'e']);
+  });
+
+  it('steps polymeters at an explicit rate', () => {
+    expect(values('{a b c}%4', 0)).toEqual(['a', 'b', 'c', 'a']);
+    expect(values('{a b c}%4', 1)).toEqual(['b', 'c', 'a', 'b']);
+  });
+
+  it('spreads euclidean hits over the step', () => {
+    expect(begins('x(3,8)')).toEqual([0, 3 / 8, 6 / 8]);
+    expect(begins('x(5,8)')).toEqual([0, 2 / 8, 3 / 8, 5 / 8, 6 / 8]);
+    expect(begins('x(3,8,2)')).toEqual([1 / 8, 4 / 8, 6 / 8]);
+  });
+});
+
+const show = (hits: boolean[]) => hits.map((hit) => hit ? 'x' : '.').join('');
+
+describe('euclid', () => {
+  it('matches the Bjorklund rhythms Tidal uses', () => {
+    expect(show(euclid(3, 8))).toBe('x..x..x.');
+    expect(show(euclid(5, 8))).toBe('x.xx.xx.');
+    expect(show(euclid(2, 5))).toBe('x.x..');
+    expect(show(euclid(7, 16))).toBe('x..x.x.x..x.x.x.');
+  });
+
+  it('handles no pulses and all pulses', () => {
+    expect(show(euclid(0, 4))).toBe('....');
+    expect(show(euclid(4, 4))).toBe('xxxx');
+  });
+
+  it('rotates left', () => {
+    expect(show(euclid(3, 8, 2))).toBe('.x..x.x.');
+    expect(show(euclid(3, 8, 10))).toBe(show(euclid(3, 8, 2)));
+    expect(show(euclid(3, 8, -1))).toBe('.x..x..x');
+  });
+
+  it('rejects fractions and impossible counts', () => {
+    expect(() => euclid(3.5, 8)).toThrow(/whole numbers/);
+    expect(() => euclid(3, 8, 0.5)).toThrow(/whole numbers/);
+    expect(() => euclid(9, 8)).toThrow(/pulses <= steps/);
+    expect(() => euclid(1, 0)).toThrow(/at least one step/);
+  });
+});
@@ -0,0 +1,298 @@
+// Mini-notation for rhythmic patterns, e.g. "c2 ~ eb2 [g2 c3]*2 <bb2 f2>".
+// Pure module: parses to a tree and queries one cycle at a time, with no
+// knowledge of Tone or the Transport.
+//
+//   a b c       steps share the cycle equally
+//   ~           rest
+//   [a b]       subdivide one step
+//   [a, b]      play layers together
+//   <a b>       alternate: one option per cycle
+//   {a b c, d e}%4  polymeter: layers step at a shared rate (default: first layer's)
+//   a*2         repeat within the step
+//   a(3,8,1)    euclidean rhythm: pulses, steps, optional rotation
+
+export type PatternNode =
+  | { type: 'atom'; value: string; position: number }
+  | { type: 'rest'; position: number }
+  | { type: 'sequence'; steps: PatternNode[] }
+  | { type: 'stack'; layers: PatternNode[] }
+  | { type: 'alternate'; options: PatternNode[] }
+  | { type: 'polymeter'; layers: PatternNode[][]; steps?: number }
+  | { type: 'fast'; node: PatternNode; factor: number }
+  | { type: 'euclid'; node: PatternNode; pulses: number; steps: number; rotation: number };
+
+export interface PatternEvent {
+  // Start and length as fractions of the cycle
+  begin: number;
+  duration: number;
+  value: string;
+}
+
+export class PatternSyntaxError extends Error {
+  constructor(message: string, public source: string, public position: number) {
+    super(`${message} at column ${position + 1}`);
+    this.name = 'PatternSyntaxError';
+  }
+}
+
+interface Token {
+  type: 'word' | 'symbol' | 'end';
+  text: string;
+  position: number;
+}
+
+const SYMBOLS = '[]<>{}(),*%~';
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (SYMBOLS.includes(ch)) {
+      tokens.push({ type: 'symbol', text: ch, position: i });
+      i++;
+    } else if (/[A-Za-z0-9#._\-]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[A-Za-z0-9#._\-]/.test(source[i])) i++;
+      tokens.push({ type: 'word', text: source.slice(start, i), position: start });
+    } else {
+      throw new PatternSyntaxError(`Unexpected character '${ch}'`, source, i);
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  public parse(): PatternNode {
+    const node = this.parseLayers('end');
+    this.expect('end');
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isSymbol(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.text === text;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new PatternSyntaxError(message, this.source, token.position);
+  }
+
+  private expect(text: string): Token {
+    const token = this.peek();
+    const matches = text === 'end' ? token.type === 'end' : this.isSymbol(text);
+    if (!matches) {
+      const found = token.type === 'end' ? 'end of pattern' : `'${token.text}'`;
+      this.fail(text === 'end' ? `Unexpected ${found}` : `Expected '${text}' but found ${found}`);
+    }
+    return this.next();
+  }
+
+  private atClose(close: string): boolean {
+    return close === 'end' ? this.peek().type === 'end' : this.isSymbol(close);
+  }
+
+  // Comma-separated layers of steps, up to (not including) the closing token
+  private parseLayers(close: string): PatternNode {
+    const layers = this.parseLayerList(close).map((steps) => ({ type: 'sequence', steps } as PatternNode));
+    return layers.length === 1 ? layers[0] : { type: 'stack', layers };
+  }
+
+  private parseLayerList(close: string): PatternNode[][] {
+    const layers: PatternNode[][] = [this.parseSteps(close)];
+    while (this.isSymbol(',')) {
+      this.next();
+      layers.push(this.parseSteps(close));
+    }
+    return layers;
+  }
+
+  private parseSteps(close: string): PatternNode[] {
+    const steps: PatternNode[] = [];
+    while (!this.atClose(close) && !this.isSymbol(',')) {
+      if (this.peek().type === 'end') this.fail(`Missing closing '${close}'`);
+      steps.push(this.parseStep());
+    }
+    if (steps.length === 0) this.fail('Empty sequence');
+    return steps;
+  }
+
+  private parseStep(): PatternNode {
+    let node = this.parseTerm();
+    for (;;) {
+      if (this.isSymbol('*')) {
+        this.next();
+        node = { type: 'fast', node, factor: this.parseInteger(1) };
+      } else if (this.isSymbol('(')) {
+        this.next();
+        const pulses = this.parseInteger(0);
+        this.expect(',');
+        const steps = this.parseInteger(1);
+        let rotation = 0;
+        if (this.isSymbol(',')) {
+          this.next();
+          rotation = this.parseInteger(0);
+        }
+        this.expect(')');
+        node = { type: 'euclid', node, pulses: Math.min(pulses, steps), steps, rotation };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseTerm(): PatternNode {
+    const token = this.peek();
+    if (token.type === 'word') {
+      this.next();
+      return { type: 'atom', value: token.text, position: token.position };
+    }
+    if (token.type === 'end') this.fail('Unexpected end of pattern');
+
+    switch (token.text) {
+      case '~':
+        this.next();
+        return { type: 'rest', position: token.position };
+      case '[': {
+        this.next();
+        const node = this.parseLayers(']');
+        this.expect(']');
+        return node;
+      }
+      case '<': {
+        this.next();
+        const options = this.parseSteps('>');
+        if (this.isSymbol(',')) this.fail("Alternation '<...>' cannot contain ','");
+        this.expect('>');
+        return { type: 'alternate', options };
+      }
+      case '{': {
+        this.next();
+        const layers = this.parseLayerList('}');
+        this.expect('}');
+        let steps: number | undefined;
+        if (this.isSymbol('%')) {
+          this.next();
+          steps = this.parseInteger(1);
+        }
+        return { type: 'polymeter', layers, steps };
+      }
+      default:
+        return this.fail(`Unexpected '${token.text}'`);
+    }
+  }
+
+  private parseInteger(min: number): number {
+    const token = this.peek();
+    if (token.type !== 'word' || !/^\d+$/.test(token.text)) {
+      this.fail('Expected a whole number');
+    }
+    const value = parseInt(token.text, 10);
+    if (value < min) this.fail(`Expected a number of at least ${min}`);
+    this.next();
+    return value;
+  }
+}
+
+export function parsePattern(source: string): PatternNode {
+  return new Parser(source).parse();
+}
+
+// Bjorklund's distribution of pulses over steps, matching Tidal: euclid(3, 8)
+// is x..x..x., euclid(5, 8) is x.xx.xx. Rotation turns the result left.
+export function euclid(pulses: number, steps: number, rotation: number = 0): boolean[] {
+  if (![pulses, steps, rotation].every(Number.isInteger)) {
+    throw new Error(`euclid() needs whole numbers, got (${pulses}, ${steps}, ${rotation})`);
+  }
+  if (steps < 1 || pulses < 0 || pulses > steps) {
+    throw new Error(`euclid() needs 0 <= pulses <= steps and at least one step, got (${pulses}, ${steps})`);
+  }
+
+  // Pair off pulse groups with remainder groups until at most one remainder is left
+  let groups: boolean[][] = Array.from({ length: pulses }, () => [true]);
+  let remainder: boolean[][] = Array.from({ length: steps - pulses }, () => [false]);
+  while (Math.min(groups.length, remainder.length) > 1) {
+    const paired = Math.min(groups.length, remainder.length);
+    const next = groups.slice(0, paired).map((group, i) => [...group, ...remainder[i]]);
+    remainder = groups.length > paired ? groups.slice(paired) : remainder.slice(paired);
+    groups = next;
+  }
+  const hits = [...groups, ...remainder].flat();
+
+  const shift = ((rotation % steps) + steps) % steps;
+  return hits.slice(shift).concat(hits.slice(0, shift));
+}
+
+function render(node: PatternNode, cycle: number, begin: number, span: number, out: PatternEvent[]) {
+  switch (node.type) {
+    case 'atom':
+      out.push({ begin, duration: span, value: node.value });
+      break;
+    case 'rest':
+      break;
+    case 'sequence': {
+      const step = span / node.steps.length;
+      node.steps.forEach((child, i) => render(child, cycle, begin + i * step, step, out));
+      break;
+    }
+    case 'stack':
+      node.layers.forEach((layer) => render(layer, cycle, begin, span, out));
+      break;
+    case 'alternate': {
+      const n = node.options.length;
+      // Nested alternations advance once per time their parent picks them
+      render(node.options[cycle % n], Math.floor(cycle / n), begin, span, out);
+      break;
+    }
+    case 'polymeter': {
+      const stepsPerCycle = node.steps ?? node.layers[0].length;
+      const step = span / stepsPerCycle;
+      node.layers.forEach((layer) => {
+        for (let i = 0; i < stepsPerCycle; i++) {
+          const k = cycle * stepsPerCycle + i;
+          render(layer[k % layer.length], Math.floor(k / layer.length), begin + i * step, step, out);
+        }
+      });
+      break;
+    }
+    case 'fast': {
+      const step = span / node.factor;
+      for (let i = 0; i < node.factor; i++) {
+        render(node.node, cycle * node.factor + i, begin + i * step, step, out);
+      }
+      break;
+    }
+    case 'euclid': {
+      const step = span / node.steps;
+      euclid(node.pulses, node.steps, node.rotation).forEach((hit, i) => {
+        if (hit) render(node.node, cycle, begin + i * step, step, out);
+      });
+      break;
+    }
+  }
+}
+
+// Events for one cycle, sorted by start time
+export function queryPattern(node: PatternNode, cycle: number): PatternEvent[] {
+  const events: PatternEvent[] = [];
+  render(node, cycle, 0, 1, events);
+  return events.sort((a, b) => a.begin - b.begin);
+}
@@ -0,0 +1,148 @@
+import * as Tone from 'tone';
+import { ChannelInfo } from '../types';
+
+// Starting gain staging for the built-in voices, in dB
+const DEFAULT_VOLUMES: Record<string, number> = {
+  synth: 0,
+  kick: 0,
+  hat: -10,
+  snare: -8,
+  poly: -12,
+};
+
+// What user code sees as `mixer`
+export interface MixerControls {
+  volume: (name: string, db: number, rampTime?: string | number) => void;
+  pan: (name: string, value: number, rampTime?: string | number) => void;
+  mute: (name: string, on?: boolean) => void;
+  solo: (name: string, on?: boolean) => void;
+  channel: (name: string) => StripNode;
+  master: Tone.Volume;
+}
+
+// FX returns are a plain PanVol: a Tone.Channel would be silenced whenever
+// another strip is soloed, cutting the reverb off the soloed instrument
+export type StripNode = Tone.Channel | Tone.PanVol;
+
+interface Strip {
+  channel: StripNode;
+  meter: Tone.Meter;
+}
+
+export class Mixer {
+  private strips: Map<string, Strip> = new Map();
+
+  // Master is a plain Volume: a Tone.Channel would be silenced by soloing
+  public master: Tone.Volume;
+  private limiter: Tone.Limiter;
+  private masterMeter: Tone.Meter;
+
+  constructor(output: Tone.InputNode) {
+    this.master = new Tone.Volume(0);
+    this.limiter = new Tone.Limiter(-1);
+    this.masterMeter = new Tone.Meter();
+    this.master.chain(this.limiter, output);
+    this.limiter.connect(this.masterMeter);
+  }
+
+  // Returns the channel for an instrument, creating the strip on first use
+  public channel(name: string): StripNode {
+    const volume = Object.hasOwn(DEFAULT_VOLUMES, name) ? DEFAULT_VOLUMES[name] : 0;
+    return this.strips.get(name)?.channel ?? this.addStrip(name, new Tone.Channel({ volume }));
+  }
+
+  // Add a strip that solo leaves alone, for an FX return
+  public returnChannel(name: string): StripNode {
+    if (this.strips.has(name)) throw new Error(`Mixer channel '${name}' already exists`);
+    return this.addStrip(name, new Tone.PanVol());
+  }
+
+  public has(name: string): boolean {
+    return this.strips.has(name);
+  }
+
+  // Dispose a strip nothing plays into any more
+  public remove(name: string) {
+    const strip = this.strips.get(name);
+    if (!strip) return;
+    strip.channel.dispose();
+    strip.meter.dispose();
+    this.strips.delete(name);
+  }
+
+  public setVolume(name: string, db: number, rampTime?: string | number) {
+    const param = name === 'master' ? this.master.volume : this.requireStrip(name).channel.volume;
+    if (rampTime !== undefined) param.rampTo(db, rampTime);
+    else param.value = db;
+  }
+
+  public setPan(name: string, value: number, rampTime?: string | number) {
+    const param = this.requireStrip(name).channel.pan;
+    if (rampTime !== undefined) param.rampTo(value, rampTime);
+    else param.value = value;
+  }
+
+  public setMute(name: string, on: boolean) {
+    if (name === 'master') this.master.mute = on;
+    else this.requireStrip(name).channel.mute = on;
+  }
+
+  public setSolo(name: string, on: boolean) {
+    const { channel } = this.requireStrip(name);
+    if (!(channel instanceof Tone.Channel)) throw new Error(`'${name}' is an FX return, which solo leaves alone`);
+    channel.solo = on;
+  }
+
+  // Read the live state of every strip; cheap enough to poll from the UI
+  public snapshot(): ChannelInfo[] {
+    const strips: ChannelInfo[] = Array.from(this.strips.entries()).map(([name, { channel, meter }]) => ({
+      name,
+      volume: channel.volume.value,
+      pan: channel.pan.value,
+      mute: channel.mute,
+      solo: channel instanceof Tone.Channel && channel.solo,
+      soloSafe: !(channel instanceof Tone.Channel),
+      level: this.readMeter(meter),
+    }));
+    strips.push({
+      name: 'master',
+      volume: this.master.volume.value,
+      pan: 0,
+      mute: this.master.mute,
+      solo: false,
+      soloSafe: true,
+      level: this.readMeter(this.masterMeter),
+    });
+    return strips;
+  }
+
+  public controls(): MixerControls {
+    return {
+      volume: (name, db, rampTime) => this.setVolume(name, db, rampTime),
+      pan: (name, value, rampTime) => this.setPan(name, value, rampTime),
+      mute: (name, on = true) => this.setMute(name, on),
+      solo: (name, on = true) => this.setSolo(name, on),
+      channel: (name) => this.requireStrip(name).channel,
+      master: this.master,
+    };
+  }
+
+  private addStrip(name: string, channel: StripNode): StripNode {
+    const meter = new Tone.Meter();
+    channel.connect(this.master);
+    channel.connect(meter);
+    this.strips.set(name, { channel, meter });
+    return channel;
+  }
+
+  private requireStrip(name: string): Strip {
+    const strip = this.strips.get(name);
+    if (!strip) throw new Error(`Unknown mixer channel '${name}'`);
+    return strip;
+  }
+
+  private readMeter(meter: Tone.Meter): number {
+    const value = meter.getValue();
+    return Array.isArray(value) ? Math.max(...value) : value;
+  }
+}
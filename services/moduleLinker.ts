@@ -0,0 +1,142 @@
+import { parse } from 'acorn';
+
+// Lets project buffers import from each other. ES import/export syntax is
+// rewritten into calls on two sandbox names, so a buffer can still run as a
+// plain Function body:
+//
+//   import { bass } from './lines.js'   ->  const { bass } = __import("lines.js");
+//   export const bass = ...             ->  const bass = ...  (+ __exports.bass = bass; at the end)
+//
+// Line breaks are never added or removed before the last line, so error
+// positions stay valid. `export ` is blanked rather than removed to keep
+// columns intact too.
+
+export const IMPORT_NAME = '__import';
+export const EXPORTS_NAME = '__exports';
+
+// "./drums", "drums.js" and "./drums.js" all name the buffer "drums.js"
+export function resolveModuleName(specifier: string): string {
+  const name = specifier.replace(/^\.\//, '');
+  return /\.[a-z]+$/i.test(name) ? name : `${name}.js`;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const nameOf = (node: any): string => node.type === 'Literal' ? String(node.value) : node.name;
+
+// Rewrite a buffer's imports and exports. Code that does not parse is
+// returned untouched so the compiler reports the syntax error itself.
+export function linkModule(code: string): string {
+  let program: any;
+  try {
+    program = parse(code, { ecmaVersion: 'latest', sourceType: 'module', allowReturnOutsideFunction: true });
+  } catch {
+    return code;
+  }
+
+  const edits: Edit[] = [];
+  const exported: Array<[string, string]> = [];
+  const blank = (start: number, end: number) => edits.push({ start, end, text: ' '.repeat(end - start) });
+
+  program.body.forEach((node: any) => {
+    switch (node.type) {
+      case 'ImportDeclaration': {
+        const source = JSON.stringify(resolveModuleName(node.source.value));
+        const load = `${IMPORT_NAME}(${source})`;
+        const bindings: string[] = [];
+        const named: string[] = [];
+        node.specifiers.forEach((spec: any) => {
+          if (spec.type === 'ImportDefaultSpecifier') bindings.push(`${spec.local.name} = ${load}.default`);
+          else if (spec.type === 'ImportNamespaceSpecifier') bindings.push(`${spec.local.name} = ${load}`);
+          else {
+            const imported = nameOf(spec.imported);
+            named.push(imported === spec.local.name ? imported : `${JSON.stringify(imported)}: ${spec.local.name}`);
+          }
+        });
+        if (named.length > 0) bindings.push(`{ ${named.join(', ')} } = ${load}`);
+        const text = bindings.length > 0 ? `const ${bindings.join(', ')};` : `${load};`;
+        // Keep the statement's line count
+        const newlines = code.slice(node.start, node.end).split('\n').length - 1;
+        edits.push({ start: node.start, end: node.end, text: text + '\n'.repeat(newlines) });
+        break;
+      }
+      case 'ExportNamedDeclaration': {
+        if (node.source) {
+          // export { a } from './x'
+          const load = `${IMPORT_NAME}(${JSON.stringify(resolveModuleName(node.source.value))})`;
+          const assignments = node.specifiers.map((spec: any) =>
+            `${EXPORTS_NAME}[${JSON.stringify(nameOf(spec.exported))}] = ${load}[${JSON.stringify(nameOf(spec.local))}];`);
+          const newlines = code.slice(node.start, node.end).split('\n').length - 1;
+          edits.push({ start: node.start, end: node.end, text: assignments.join(' ') + '\n'.repeat(newlines) });
+        } else if (node.declaration) {
+          blank(node.start, node.declaration.start);
+          const declaration = node.declaration;
+          if (declaration.type === 'VariableDeclaration') {
+            declaration.declarations.forEach((d: any) => {
+              collectBindingNames(d.id).forEach((name) => exported.push([name, name]));
+            });
+          } else {
+            exported.push([declaration.id.name, declaration.id.name]);
+          }
+        } else {
+          // export { a, b as c }
+          node.specifiers.forEach((spec: any) => exported.push([nameOf(spec.exported), nameOf(spec.local)]));
+          blank(node.start, node.end);
+        }
+        break;
+      }
+      case 'ExportDefaultDeclaration': {
+        const declaration = node.declaration;
+        if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+          blank(node.start, declaration.start);
+          exported.push(['default', declaration.id.name]);
+        } else {
+          edits.push({ start: node.start, end: declaration.start, text: `${EXPORTS_NAME}.default = ` });
+        }
+        break;
+      }
+      case 'ExportAllDeclaration': {
+        const load = `${IMPORT_NAME}(${JSON.stringify(resolveModuleName(node.source.value))})`;
+        const text = node.exported
+          ? `${EXPORTS_NAME}[${JSON.stringify(nameOf(node.exported))}] = ${load};`
+          : `Object.assign(${EXPORTS_NAME}, ${load});`;
+        edits.push({ start: node.start, end: node.end, text });
+        break;
+      }
+    }
+  });
+
+  if (edits.length === 0) return code;
+
+  let result = code;
+  edits
+    .sort((a, b) => b.start - a.start)
+    .forEach(({ start, end, text }) => { result = result.slice(0, start) + text + result.slice(end); });
+
+  if (exported.length > 0) {
+    result += '\n' + exported.map(([name, local]) => `${EXPORTS_NAME}[${JSON.stringify(name)}] = ${local};`).join(' ');
+  }
+  return result;
+}
+
+// Names bound by a declaration pattern: const { a, b: [c] } = ...
+function collectBindingNames(pattern: any): string[] {
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap((p: any) => collectBindingNames(p.type === 'RestElement' ? p.argument : p.value));
+    case 'ArrayPattern':
+      return pattern.elements.filter(Boolean).flatMap(collectBindingNames);
+    case 'RestElement':
+      return collectBindingNames(pattern.argument);
+    case 'AssignmentPattern':
+      return collectBindingNames(pattern.left);
+    default:
+      return [];
+  }
+}
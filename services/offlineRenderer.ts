@@ -0,0 +1,90 @@
+import * as Tone from 'tone';
+import { LoopRegistry, LogCallback } from './loopRegistry';
+import { createRig } from './rig';
+import { evaluateSketch, SketchSources } from './sandbox';
+import { mulberry32, seedRandom, useRandom } from './random';
+import { TransportControl, DEFAULT_TRANSPORT, quartersPerBar } from './transport';
+import { ControlSurface, ControlValue } from './controlSurface';
+import { TransportSettings } from '../types';
+
+// Fixed seed so Math.random, in user code and inside Tone, repeats exactly
+const RENDER_SEED = 0x50_4e_1c;
+
+export interface RenderOptions {
+  bars: number;
+  bpm: number;
+  // Meter and swing; 4/4 straight when left out
+  transport?: TransportSettings;
+  // Values of the live controls; defaults when left out
+  controlValues?: ReadonlyMap<string, ControlValue>;
+  // Project buffers the sketch may import
+  sources?: SketchSources;
+}
+
+// Render a sketch on a private OfflineContext with a fresh copy of the live
+// rig. The live context keeps playing untouched.
+export async function renderOffline(code: string, options: RenderOptions, logCallback: LogCallback): Promise<Tone.ToneAudioBuffer> {
+  const liveContext = Tone.getContext();
+  const settings = options.transport ?? DEFAULT_TRANSPORT;
+  const duration = (options.bars * quartersPerBar(settings.timeSignature) * 60) / options.bpm;
+  const context = new Tone.OfflineContext(2, duration, liveContext.sampleRate);
+
+  const log: LogCallback = (msg, type, location, source) => logCallback(`BOUNCE: ${msg}`, type, location, source);
+
+  // Build the rig under the seed too: the reverb impulse is made of noise
+  Tone.setContext(context);
+  let restoreRandom = seedRandom(RENDER_SEED);
+  let rig;
+  try {
+    rig = createRig(context.destination);
+  } finally {
+    restoreRandom();
+    Tone.setContext(liveContext);
+  }
+
+  await rig.fx.units.reverb.ready;
+  log(`Rig ready, rendering ${duration.toFixed(2)}s`, 'info');
+
+  // One stream for the evaluation and every tick of the render
+  const random = mulberry32(RENDER_SEED);
+
+  // The offline context is current and Math.random seeded only while the
+  // render's own code runs, never across an await: live loops and runs keep
+  // going meanwhile and must not see either
+  Tone.setContext(context);
+  restoreRandom = useRandom(random);
+  try {
+    const transport = context.transport;
+    transport.bpm.value = options.bpm;
+    const control = new TransportControl(transport);
+    control.apply(settings);
+
+    const loops = new LoopRegistry(transport);
+    // A surface of its own, so the bounce never changes the live controls
+    const controls = new ControlSurface(options.controlValues);
+    const evaluation = evaluateSketch(code, rig, loops, control, controls, log, options.sources);
+    loops.startAll(evaluation.definitions, log);
+    evaluation.commit();
+    controls.commit(evaluation.controls);
+    transport.start(0);
+  } finally {
+    restoreRandom();
+    Tone.setContext(liveContext);
+  }
+
+  // Loop callbacks run from the render clock's ticks. A non-async render
+  // emits them all in one synchronous stretch, and Tone makes the offline
+  // context current around each; seed each tick the same way.
+  const emit = context.emit.bind(context);
+  context.emit = ((event: 'tick' | 'statechange', ...args: any[]) => {
+    if (event !== 'tick') return emit(event, ...args);
+    const restore = useRandom(random);
+    try {
+      return emit(event, ...args);
+    } finally {
+      restore();
+    }
+  }) as typeof context.emit;
+
+  return await context.render(false);
+}
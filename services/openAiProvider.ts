@@ -0,0 +1,126 @@
+import { AgentReply, ChatSession, LlmProvider, ProviderConfigError, SessionOptions, ToolCall, TurnOptions, normalizeHistory } from './llmProvider';
+
+// Chat Completions message, as much of it as we send back and forth
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+type OpenAiToolCall = NonNullable<OpenAiMessage['tool_calls']>[number];
+
+const parseArgs = (json: string): Record<string, any> => {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    // Left empty; the tool reports the missing arguments back
+    return {};
+  }
+};
+
+// "data:" payloads of a server-sent event stream
+async function* serverEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+}
+
+// Any server speaking the OpenAI Chat Completions API with tool calls
+// (OpenAI itself, vLLM, llama.cpp, Ollama, LM Studio...). The conversation is
+// kept here, since the API is stateless.
+export class OpenAiProvider implements LlmProvider {
+  constructor(private endpoint: string, private model: string, private apiKey: string) {
+    if (!endpoint) throw new ProviderConfigError('Set the endpoint of your OpenAI-compatible server in the agent settings.');
+    if (!model) throw new ProviderConfigError('Set a model name in the agent settings.');
+  }
+
+  public createSession(options: SessionOptions): ChatSession {
+    const history: OpenAiMessage[] = [
+      { role: 'system', content: options.systemInstruction },
+      ...normalizeHistory(options.history).map((turn): OpenAiMessage => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.text,
+      })),
+    ];
+    const tools = options.tools.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+
+    const complete = async (turn: TurnOptions = {}): Promise<AgentReply> => {
+      const response = await fetch(`${this.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, messages: history, tools, stream: true }),
+        signal: turn.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}: ${(await response.text()).slice(0, 200)}`);
+      }
+
+      let text = '';
+      const calls: OpenAiToolCall[] = [];
+      if (response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+        for await (const data of serverEvents(response.body)) {
+          if (data === '[DONE]') break;
+          const delta = JSON.parse(data)?.choices?.[0]?.delta;
+          if (delta?.content) {
+            text += delta.content;
+            turn.onText?.(delta.content);
+          }
+          // Tool calls arrive in fragments keyed by index
+          (delta?.tool_calls ?? []).forEach((fragment: any) => {
+            const call = calls[fragment.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (fragment.id) call.id = fragment.id;
+            call.function.name += fragment.function?.name ?? '';
+            call.function.arguments += fragment.function?.arguments ?? '';
+          });
+        }
+      } else {
+        // Servers that ignore `stream` answer in one piece
+        const message: OpenAiMessage | undefined = (await response.json())?.choices?.[0]?.message;
+        if (!message) throw new Error('Endpoint returned no message');
+        text = message.content ?? '';
+        if (text) turn.onText?.(text);
+        calls.push(...(message.tool_calls ?? []));
+      }
+
+      const toolCalls = calls.filter(Boolean).map((call, index): ToolCall => ({
+        id: call.id || `call-${index}`,
+        name: call.function.name,
+        args: parseArgs(call.function.arguments),
+      }));
+      history.push({
+        role: 'assistant',
+        content: text || null,
+        tool_calls: toolCalls.length > 0 ? calls.filter(Boolean).map((call, index) => ({ ...call, id: toolCalls[index].id })) : undefined,
+      });
+      return { text: text || undefined, toolCalls };
+    };
+
+    return {
+      send: (message, turn) => {
+        history.push({ role: 'user', content: message });
+        return complete(turn);
+      },
+      sendToolResults: (results, turn) => {
+        results.forEach(({ call, result }) => history.push({ role: 'tool', tool_call_id: call.id, content: result }));
+        return complete(turn);
+      },
+    };
+  }
+}
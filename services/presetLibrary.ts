@@ -0,0 +1,138 @@
+import * as db from './db';
+import { BUILT_IN_TYPES, isInstrumentType } from './instrumentPool';
+import { InstrumentPreset, InstrumentType } from '../types';
+
+// Marks exported preset files so imports can reject anything else
+const EXPORT_FORMAT = 'sonic-shell-presets';
+const EXPORT_VERSION = 1;
+
+// Built-in voices a preset of this type may replace
+export const defaultTargets = (type: InstrumentType) =>
+  Object.keys(BUILT_IN_TYPES).filter((name) => BUILT_IN_TYPES[name] === type);
+
+// Instrument settings saved in IndexedDB and kept in memory, so rigs can
+// read default presets synchronously while they are built.
+class PresetLibrary {
+  private presets: Map<string, InstrumentPreset> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): InstrumentPreset[] {
+    return Array.from(this.presets.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public get(name: string): InstrumentPreset | undefined {
+    return this.presets.get(name);
+  }
+
+  public require(name: string): InstrumentPreset {
+    const preset = this.presets.get(name);
+    if (!preset) throw new Error(`Unknown preset '${name}'. Save one from the PRESETS panel first.`);
+    return preset;
+  }
+
+  // The preset replacing a built-in voice, if any
+  public defaultFor(voice: string): InstrumentPreset | undefined {
+    return this.list().find((preset) => preset.defaultFor === voice);
+  }
+
+  public async load(): Promise<number> {
+    const stored = await db.getAll<InstrumentPreset>('presets');
+    stored.forEach((preset) => this.presets.set(preset.name, preset));
+    this.notify();
+    return stored.length;
+  }
+
+  // Saving under an existing name overwrites that preset's settings
+  public async save(name: string, type: InstrumentType, options: Record<string, any>): Promise<InstrumentPreset> {
+    const preset: InstrumentPreset = { ...this.presets.get(name), name, type, options, updatedAt: Date.now() };
+    if (preset.defaultFor && BUILT_IN_TYPES[preset.defaultFor] !== type) delete preset.defaultFor;
+    await this.put(preset);
+    this.notify();
+    return preset;
+  }
+
+  public async rename(from: string, to: string) {
+    const preset = this.require(from);
+    const name = to.trim();
+    if (!name) throw new Error('Preset names cannot be empty');
+    if (name === from) return;
+    if (this.presets.has(name)) throw new Error(`A preset named '${name}' already exists`);
+    await db.remove('presets', from);
+    this.presets.delete(from);
+    await this.put({ ...preset, name, updatedAt: Date.now() });
+    this.notify();
+  }
+
+  // Make a preset the default for a built-in voice, or clear it with undefined.
+  // A voice has at most one default.
+  public async setDefault(name: string, voice: string | undefined) {
+    const preset = this.require(name);
+    if (voice !== undefined && BUILT_IN_TYPES[voice] !== preset.type) {
+      throw new Error(`'${name}' is a ${preset.type} preset and cannot replace '${voice}'`);
+    }
+    if (voice !== undefined) {
+      const previous = this.defaultFor(voice);
+      if (previous && previous.name !== name) await this.put({ ...previous, defaultFor: undefined });
+    }
+    await this.put({ ...preset, defaultFor: voice, updatedAt: Date.now() });
+    this.notify();
+  }
+
+  public async remove(name: string) {
+    await db.remove('presets', name);
+    this.presets.delete(name);
+    this.notify();
+  }
+
+  public toJson(presets: InstrumentPreset[]): string {
+    const exported = presets.map(({ updatedAt, ...preset }) => preset);
+    return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets: exported }, null, 2);
+  }
+
+  // Import exported presets. Names already taken get a numbered suffix so
+  // nothing local is overwritten. Returns the imported presets.
+  public async fromJson(text: string): Promise<InstrumentPreset[]> {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Not a JSON file');
+    }
+    if (data?.format !== EXPORT_FORMAT) throw new Error('Not a SONIC_SHELL preset export');
+    if (data.version > EXPORT_VERSION) throw new Error(`Preset format v${data.version} is newer than this shell supports`);
+
+    const imported: InstrumentPreset[] = [];
+    for (const entry of Array.isArray(data.presets) ? data.presets : []) {
+      if (typeof entry?.name !== 'string' || !entry.name.trim() || !isInstrumentType(entry.type)) continue;
+      if (typeof entry.options !== 'object' || entry.options === null) continue;
+
+      let name = entry.name.trim();
+      for (let n = 2; this.presets.has(name); n++) name = `${entry.name.trim()} ${n}`;
+      const preset: InstrumentPreset = { name, type: entry.type, options: entry.options, updatedAt: Date.now() };
+      await this.put(preset);
+      if (typeof entry.defaultFor === 'string' && BUILT_IN_TYPES[entry.defaultFor] === preset.type) {
+        await this.setDefault(name, entry.defaultFor);
+      }
+      imported.push(this.presets.get(name)!);
+    }
+    if (imported.length === 0) throw new Error('No presets in the file');
+    this.notify();
+    return imported;
+  }
+
+  private async put(preset: InstrumentPreset) {
+    await db.put('presets', preset);
+    this.presets.set(preset.name, preset);
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const presetLibrary = new PresetLibrary();
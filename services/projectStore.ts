@@ -0,0 +1,135 @@
+import * as db from './db';
+import { DEFAULT_FILE } from './sandbox';
+import { DEFAULT_TRANSPORT, normalizeTransport } from './transport';
+import { isVisMode } from './visualizer';
+import { Project, ProjectFile } from '../types';
+
+// Marks exported project files so imports can reject anything else
+const EXPORT_FORMAT = 'sonic-shell-project';
+const EXPORT_VERSION = 1;
+
+const newId = () => Math.random().toString(36).slice(2, 11);
+
+// "Drum Tools" -> "drum_tools.js"; null when nothing usable is left
+export function fileNameFrom(input: string): string | null {
+  const base = input
+    .trim()
+    .replace(/\.js$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return base ? `${base}.js` : null;
+}
+
+export function createProject(name: string, code: string): Project {
+  const now = Date.now();
+  return {
+    id: newId(),
+    name,
+    files: [{ name: DEFAULT_FILE, content: code }],
+    activeFile: DEFAULT_FILE,
+    bpm: 120,
+    transport: DEFAULT_TRANSPORT,
+    visMode: 'waveform',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export const activeContent = (project: Project) =>
+  project.files.find((file) => file.name === project.activeFile)?.content ?? '';
+
+// Buffer contents by name, as the sandbox resolves imports
+export const fileMap = (project: Project): Record<string, string> =>
+  Object.fromEntries(project.files.map((file) => [file.name, file.content]));
+
+export const withFile = (project: Project, name: string, content: string): Project => ({
+  ...project,
+  files: project.files.map((file) => file.name === name ? { ...file, content } : file),
+});
+
+// Projects saved in IndexedDB. The app edits a Project in React state and
+// hands it back here to persist; this keeps the list for the switcher.
+class ProjectStore {
+  private projects: Map<string, Project> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Most recently edited first
+  public list(): Project[] {
+    return Array.from(this.projects.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public get(id: string): Project | undefined {
+    return this.projects.get(id);
+  }
+
+  public async load(): Promise<Project[]> {
+    const stored = await db.getAll<Project>('projects');
+    // Projects saved before meter and swing existed get the defaults
+    stored.forEach((project) => this.projects.set(project.id, { ...project, transport: normalizeTransport(project.transport) }));
+    this.notify();
+    return this.list();
+  }
+
+  public async save(project: Project): Promise<Project> {
+    const saved = { ...project, updatedAt: Date.now() };
+    await db.put('projects', saved);
+    this.projects.set(saved.id, saved);
+    this.notify();
+    return saved;
+  }
+
+  public async remove(id: string) {
+    await db.remove('projects', id);
+    this.projects.delete(id);
+    this.notify();
+  }
+
+  public toJson(project: Project): string {
+    const { id, createdAt, updatedAt, ...content } = project;
+    return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, ...content }, null, 2);
+  }
+
+  // Import an exported project as a new one, so it never overwrites local work
+  public async fromJson(text: string): Promise<Project> {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Not a JSON file');
+    }
+    if (data?.format !== EXPORT_FORMAT) throw new Error('Not a SONIC_SHELL project export');
+    if (data.version > EXPORT_VERSION) throw new Error(`Project format v${data.version} is newer than this shell supports`);
+
+    // Buffer names end up in import paths and stack traces, normalize them
+    const files: ProjectFile[] = [];
+    (Array.isArray(data.files) ? data.files : []).forEach((file: any) => {
+      const name = typeof file?.name === 'string' ? fileNameFrom(file.name) : null;
+      if (!name || typeof file.content !== 'string' || files.some((f) => f.name === name)) return;
+      files.push({ name, content: file.content });
+    });
+    if (files.length === 0) throw new Error('Project has no buffers');
+
+    const activeFile = typeof data.activeFile === 'string' ? fileNameFrom(data.activeFile) : null;
+    const project: Project = {
+      ...createProject(typeof data.name === 'string' ? data.name : 'Imported project', ''),
+      files,
+      activeFile: activeFile && files.some((file) => file.name === activeFile) ? activeFile : files[0].name,
+      bpm: typeof data.bpm === 'number' ? data.bpm : 120,
+      transport: normalizeTransport(data.transport),
+      visMode: isVisMode(data.visMode) ? data.visMode : 'waveform',
+    };
+    return this.save(project);
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const projectStore = new ProjectStore();
@@ -0,0 +1,27 @@
+// Seeded PRNG (mulberry32). Small and fast, good enough for musical randomness.
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Replace Math.random with a generator, e.g. to carry one seeded stream over
+// several stretches of code. Returns a function that puts the original back;
+// always call it in a finally block.
+export function useRandom(generator: () => number): () => void {
+  const original = Math.random;
+  Math.random = generator;
+  return () => {
+    Math.random = original;
+  };
+}
+
+// Replace Math.random with a seeded generator, as useRandom does
+export function seedRandom(seed: number): () => void {
+  return useRandom(mulberry32(seed));
+}
@@ -0,0 +1,130 @@
+import * as Tone from 'tone';
+import { Mixer } from './mixer';
+import { FxRack } from './fxRack';
+import { SamplePool } from './samplePool';
+import { InstrumentPool } from './instrumentPool';
+import { presetLibrary } from './presetLibrary';
+import { seedRandom } from './random';
+
+// Seed for Tone's shared noise buffers
+const NOISE_SEED = 0x6e_6f_15;
+
+// The built-in voices handed to user code
+export interface Instruments {
+  synth: Tone.MonoSynth;
+  kick: Tone.MembraneSynth;
+  hat: Tone.MetalSynth;
+  snare: Tone.NoiseSynth;
+  poly: Tone.PolySynth;
+}
+
+// Everything between user code and an output node. The live engine builds one
+// on the realtime context; offline renders build a twin on their own context.
+export interface Rig {
+  instruments: Instruments;
+  mixer: Mixer;
+  fx: FxRack;
+  samples: SamplePool;
+  // Built-in and sketch-declared voices, with their presets
+  voices: InstrumentPool;
+  // Which mixer channel each instrument node feeds
+  routes: Map<Tone.ToneAudioNode, string>;
+  // Connect a node to a mixer channel, creating the strip if needed
+  route: <T extends Tone.ToneAudioNode>(name: string, node: T) => T;
+}
+
+// Tone fills one buffer per noise colour on first use and every Noise (the
+// snare, the reverb impulse) plays from it for the rest of the page. Fill
+// them under a fixed seed, so bounces repeat whichever rig got there first.
+function primeNoiseBuffers() {
+  const restoreRandom = seedRandom(NOISE_SEED);
+  try {
+    (['white', 'pink', 'brown'] as const).forEach((type) => {
+      const noise = new Tone.Noise(type);
+      noise.start();
+      noise.dispose();
+    });
+  } finally {
+    restoreRandom();
+  }
+}
+
+// Nodes are created on whatever context is current, so call this after
+// Tone.setContext() when building for an offline render.
+export function createRig(output: Tone.InputNode): Rig {
+  primeNoiseBuffers();
+  const mixer = new Mixer(output);
+  const fx = new FxRack(mixer);
+  const routes: Map<Tone.ToneAudioNode, string> = new Map();
+
+  // Connect an instrument to its own mixer channel
+  const routed = <T extends Tone.ToneAudioNode>(name: string, node: T): T => {
+    node.connect(mixer.channel(name));
+    routes.set(node, name);
+    return node;
+  };
+
+  // Forget a disposed node; the last one on a channel takes its strip along
+  const unrouted = (node: Tone.ToneAudioNode) => {
+    const name = routes.get(node);
+    routes.delete(node);
+    if (name === undefined || Array.from(routes.values()).includes(name)) return;
+    fx.removeSends(name);
+    mixer.remove(name);
+  };
+
+  const voices = new InstrumentPool(routed, unrouted);
+
+  const instruments: Instruments = {
+    // Acid Bass Synth
+    synth: voices.builtIn('synth', new Tone.MonoSynth({
+      oscillator: { type: "sawtooth" },
+      envelope: { attack: 0.01, decay: 0.2, sustain: 0.1, release: 1 },
+      filterEnvelope: { attack: 0.01, decay: 0.3, sustain: 0.1, baseFrequency: 200, octaves: 3 }
+    })),
+
+    // Punchy Kick
+    kick: voices.builtIn('kick', new Tone.MembraneSynth({
+      pitchDecay: 0.05,
+      octaves: 6,
+      oscillator: { type: "sine" },
+      envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 },
+    })),
+
+    // Metallic Hat
+    hat: voices.builtIn('hat', new Tone.MetalSynth({
+      envelope: { attack: 0.001, decay: 0.1, release: 0.01 },
+      harmonicity: 5.1,
+      modulationIndex: 32,
+      resonance: 4000,
+      octaves: 1.5,
+    })),
+
+    // Noise Snare
+    snare: voices.builtIn('snare', new Tone.NoiseSynth({
+      noise: { type: 'pink' },
+      envelope: { attack: 0.001, decay: 0.2, sustain: 0 }
+    })),
+
+    // Polyphonic Synth for Chords
+    poly: voices.builtIn('poly', new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: "triangle" },
+      envelope: { attack: 0.02, decay: 0.1, sustain: 0.3, release: 1 }
+    })),
+  };
+
+  // Default presets from the library replace the settings above
+  voices.applyDefaults((name) => presetLibrary.defaultFor(name));
+
+  const samples = new SamplePool(routed);
+
+  return { instruments, mixer, fx, samples, voices, routes, route: routed };
+}
+
+// Resolve an instrument node or channel name to a mixer channel name
+export function channelOf(rig: Rig, source: Tone.ToneAudioNode | string): string {
+  if (typeof source === 'string') return source;
+  const name = rig.routes.get(source);
+  if (!name) throw new Error("send() needs an instrument or a mixer channel name");
+  return name;
+}
@@ -0,0 +1,106 @@
+import * as Tone from 'tone';
+import * as db from './db';
+import { SampleInfo } from '../types';
+
+// What we keep in IndexedDB: the original file bytes, decoded on load
+interface StoredSample {
+  name: string;
+  type: string;
+  size: number;
+  data: ArrayBuffer;
+  addedAt: number;
+}
+
+// Turn "808 Kick (hard).wav" into "808_kick_hard" so it is easy to type
+export const sampleNameFromFile = (filename: string) =>
+  filename
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'sample';
+
+// User audio files, persisted in IndexedDB and decoded into memory so user
+// code can reach them synchronously through sample()/sampler().
+class SampleLibrary {
+  private buffers: Map<string, Tone.ToneAudioBuffer> = new Map();
+  private info: Map<string, SampleInfo> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): SampleInfo[] {
+    return Array.from(this.info.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public has(name: string): boolean {
+    return this.buffers.has(name);
+  }
+
+  public names(): string[] {
+    return Array.from(this.buffers.keys());
+  }
+
+  public buffer(name: string): Tone.ToneAudioBuffer {
+    const buffer = this.buffers.get(name);
+    if (!buffer) {
+      throw new Error(`Unknown sample '${name}'. Drop audio files onto the shell to add them.`);
+    }
+    return buffer;
+  }
+
+  // Decode everything saved in previous sessions. Returns how many loaded.
+  public async load(): Promise<number> {
+    const stored = await db.getAll<StoredSample>('samples');
+    let loaded = 0;
+    for (const sample of stored) {
+      try {
+        await this.decode(sample);
+        loaded++;
+      } catch (err) {
+        console.error(`Failed to decode sample '${sample.name}'`, err);
+      }
+    }
+    this.notify();
+    return loaded;
+  }
+
+  public async add(file: File): Promise<SampleInfo> {
+    const sample: StoredSample = {
+      name: sampleNameFromFile(file.name),
+      type: file.type,
+      size: file.size,
+      data: await file.arrayBuffer(),
+      addedAt: Date.now(),
+    };
+    // Decode first so a file the browser can't read never gets stored
+    const info = await this.decode(sample);
+    await db.put('samples', sample);
+    this.notify();
+    return info;
+  }
+
+  public async remove(name: string) {
+    await db.remove('samples', name);
+    this.buffers.delete(name);
+    this.info.delete(name);
+    this.notify();
+  }
+
+  private async decode(sample: StoredSample): Promise<SampleInfo> {
+    // decodeAudioData detaches its input, keep the stored bytes intact
+    const audio = await Tone.getContext().decodeAudioData(sample.data.slice(0));
+    const info: SampleInfo = { name: sample.name, duration: audio.duration, size: sample.size };
+    this.buffers.set(sample.name, new Tone.ToneAudioBuffer(audio));
+    this.info.set(sample.name, info);
+    return info;
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const sampleLibrary = new SampleLibrary();
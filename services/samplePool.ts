@@ -0,0 +1,63 @@
+import * as Tone from 'tone';
+import { sampleLibrary } from './sampleLibrary';
+
+type Route = <T extends Tone.ToneAudioNode>(name: string, node: T) => T;
+
+export interface SamplerOptions {
+  // Mixer channel to route to, defaults to "sampler"
+  name?: string;
+  attack?: number;
+  release?: number;
+}
+
+// Players and samplers built from the sample library. Instances are cached so
+// re-running a sketch reuses them instead of piling up nodes.
+export class SamplePool {
+  private players: Map<string, Tone.Player> = new Map();
+  private samplers: Map<string, Tone.Sampler> = new Map();
+
+  constructor(private route: Route) {}
+
+  // Mixer strip name for a sample's player, kept apart from instrument names
+  public static channelName(name: string): string {
+    return `sample.${name}`;
+  }
+
+  public player(name: string): Tone.Player {
+    const buffer = sampleLibrary.buffer(name);
+    let player = this.players.get(name);
+    if (!player) {
+      player = this.route(SamplePool.channelName(name), new Tone.Player(buffer));
+      this.players.set(name, player);
+    } else if (player.buffer.get() !== buffer.get()) {
+      // The sample was replaced in the library since the last run
+      player.buffer = buffer;
+    }
+    return player;
+  }
+
+  // Map notes to sample names, e.g. { C2: "kick", D2: "snare" }
+  public sampler(urls: Record<string, string>, options: SamplerOptions = {}): Tone.Sampler {
+    const channel = options.name ?? 'sampler';
+    const key = `${channel}:${JSON.stringify(urls)}`;
+
+    let sampler = this.samplers.get(key);
+    if (!sampler) {
+      const buffers: Record<string, Tone.ToneAudioBuffer> = {};
+      Object.entries(urls).forEach(([note, name]) => {
+        buffers[note] = sampleLibrary.buffer(name);
+      });
+      sampler = this.route(channel, new Tone.Sampler({ urls: buffers }));
+      this.samplers.set(key, sampler);
+    }
+
+    if (options.attack !== undefined) sampler.attack = options.attack;
+    if (options.release !== undefined) sampler.release = options.release;
+    return sampler;
+  }
+
+  public stopAll() {
+    this.players.forEach((player) => player.stop());
+    this.samplers.forEach((sampler) => sampler.releaseAll());
+  }
+}
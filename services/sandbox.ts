@@ -0,0 +1,366 @@
+import * as Tone from 'tone';
+import { Rig, channelOf } from './rig';
+import { MixerControls } from './mixer';
+import { FxUnits } from './fxRack';
+import { SamplerOptions } from './samplePool';
+import { parsePattern, queryPattern, PatternNode, euclid } from './miniNotation';
+import * as theory from './theory';
+import { Voice, VoiceRun, createVoiceRun } from './instrumentPool';
+import { presetLibrary } from './presetLibrary';
+import { ControlSurface, ControlRun, ControlHandle, XYHandle, KnobOptions, ToggleOptions, XYOptions, createControlRun, createControls } from './controlSurface';
+import { InstrumentType } from '../types';
+import { LoopGuard, GUARD_NAME, instrumentLoops } from './loopGuard';
+import { CONSTRUCTOR_GUARD_NAME, constructorOf, guardConstructors } from './constructorGuard';
+import { sketchUrl, LocatedError, CompiledSource, createLocator, locateSyntaxError } from './diagnostics';
+import { linkModule, resolveModuleName, IMPORT_NAME, EXPORTS_NAME } from './moduleLinker';
+import { LoopRegistry, LoopCallback, LoopDefinition, LogCallback } from './loopRegistry';
+import { TransportControl, checkRamp } from './transport';
+import { formatArgs } from './kernelLog';
+
+// Time budgets, in ms, for the top-level script and for each loop tick
+const EVALUATION_BUDGET_MS = 2000;
+const CALLBACK_BUDGET_MS = 100;
+
+// Globals user code may touch. Everything else (window, document, storage,
+// network, eval, timers...) is unavailable inside the sandbox. This guards
+// against accidents, not against deliberately hostile code.
+const SAFE_GLOBALS = new Set([
+  'undefined', 'NaN', 'Infinity',
+  'Math', 'JSON', 'Number', 'String', 'Boolean', 'Symbol', 'BigInt', 'Date', 'RegExp', 'Intl',
+  'Array', 'Object', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise',
+  'Error', 'TypeError', 'RangeError', 'SyntaxError', 'ReferenceError',
+  'parseInt', 'parseFloat', 'isNaN', 'isFinite',
+  'ArrayBuffer', 'Float32Array', 'Float64Array', 'Int8Array', 'Int16Array', 'Int32Array', 'Uint8Array', 'Uint16Array', 'Uint32Array',
+  'console',
+]);
+
+// Scope object for a `with` block: sandbox names first, then safe globals.
+// Claiming every name keeps lookups from ever reaching the real global object.
+// A Proxy cannot tell `typeof name` from a plain read, so typeof on a name
+// that is neither declared nor available throws instead of giving "undefined".
+function createScope(context: object): object {
+  const scope: Record<string, unknown> = { ...context };
+  return new Proxy(scope, {
+    has: (_, key) => typeof key === 'string',
+    get: (target, key) => {
+      if (typeof key !== 'string') return undefined;
+      if (key in target) return target[key];
+      if (SAFE_GLOBALS.has(key)) return (globalThis as any)[key];
+      throw new ReferenceError(`${key} is not available in the sandbox`);
+    },
+    set: (target, key, value) => {
+      if (typeof key === 'string') target[key] = value;
+      return true;
+    },
+  });
+}
+
+// Anything pattern() can play: an instrument, a player, or a callback
+export type PatternTarget =
+  | Tone.ToneAudioNode
+  | ((value: string, time: number, duration: number) => void);
+
+export interface PatternOptions {
+  // Length of one pattern cycle, defaults to one bar
+  cycle?: string;
+}
+
+// Levels sketches can write to KERNEL_LOG at; print() is log.info()
+export interface SketchLog {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+// Define the shape of our "Sandbox" instruments
+export interface SandboxContext {
+  synth: Tone.MonoSynth;
+  kick: Tone.MembraneSynth;
+  hat: Tone.MetalSynth;
+  snare: Tone.NoiseSynth;
+  poly: Tone.PolySynth;
+  loop: (name: string, interval: string, callback: LoopCallback) => void;
+  pattern: (name: string, source: string, target: PatternTarget, options?: PatternOptions) => void;
+  mute: (...names: string[]) => void;
+  solo: (...names: string[]) => void;
+  unmute: (...names: string[]) => void;
+  kill: (name: string) => void;
+  rampBpm: (bpm: number, duration: string | number, time?: number) => void;
+  // Project key when the sketch was evaluated; the helpers below read it live
+  key: string;
+  scale: (tonic?: string, mode?: string) => string[];
+  chord: (symbol: string, options?: theory.ChordOptions) => string[];
+  progression: (numerals: string, key?: string, options?: theory.ChordOptions) => string[][];
+  quantize: (note: string | number, keyOrScale?: string | string[]) => string;
+  euclid: (pulses: number, steps: number, rotation?: number) => boolean[];
+  mixer: MixerControls;
+  fx: FxUnits;
+  send: (source: Tone.ToneAudioNode | string, fx: string, amount: number, rampTime?: string | number) => void;
+  sample: (name: string) => Tone.Player;
+  sampler: (urls: Record<string, string>, options?: SamplerOptions) => Tone.Sampler;
+  instrument: (name: string, type: InstrumentType, options?: Record<string, any> | string) => Voice;
+  knob: (name: string, options?: KnobOptions) => ControlHandle<number>;
+  toggle: (name: string, options?: ToggleOptions) => ControlHandle<boolean>;
+  xy: (name: string, options?: XYOptions) => XYHandle;
+  print: (...args: unknown[]) => void;
+  log: SketchLog;
+  Tone: typeof Tone; // Expose raw Tone for advanced users
+}
+
+// Play one pattern event on its target. "x" marks a hit on unpitched use.
+function triggerPatternEvent(target: PatternTarget, value: string, time: number, duration: number) {
+  if (typeof target === 'function') {
+    target(value, time, duration);
+  } else if (target instanceof Tone.Player) {
+    target.start(time);
+  } else if (target instanceof Tone.NoiseSynth) {
+    target.triggerAttackRelease(duration, time);
+  } else if ('triggerAttackRelease' in target) {
+    const note = value === 'x' ? (target instanceof Tone.MembraneSynth ? 'C1' : 'C3') : value;
+    (target as Tone.Synth).triggerAttackRelease(note, duration, time);
+  } else {
+    throw new Error("pattern() target must be an instrument, a sample or a function");
+  }
+}
+
+// What is being evaluated, and the project it belongs to
+export interface SketchSources {
+  // Buffer the code comes from, used in error locations
+  file: string;
+  // Every buffer in the project by name, for import
+  files: Record<string, string>;
+}
+
+export const DEFAULT_FILE = 'main.js';
+
+export interface Evaluation {
+  // Loops declared by the sketch, keyed by name
+  definitions: Map<string, LoopDefinition>;
+  // Apply mute/solo/kill calls that were held back during evaluation
+  commit: () => void;
+  // Names passed to instrument(), so voices the sketch dropped can go
+  instruments: Set<string>;
+  // Controls declared and mapped, for the surface to take over
+  controls: ControlRun;
+}
+
+// Run a sketch against a rig. Throws on compile errors or top-level exceptions,
+// in which case nothing has been scheduled.
+export function evaluateSketch(
+  code: string,
+  rig: Rig,
+  loops: LoopRegistry,
+  transport: TransportControl,
+  controls: ControlSurface,
+  logCallback: LogCallback,
+  sources: SketchSources = { file: DEFAULT_FILE, files: {} },
+): Evaluation {
+  // Loops are collected first and only committed once the whole script
+  // evaluated cleanly, so a typo never tears down the running set.
+  const definitions: Map<string, LoopDefinition> = new Map();
+  const voiceRun: VoiceRun = createVoiceRun();
+  const controlRun: ControlRun = createControlRun();
+
+  // Mute/solo/kill calls made during evaluation wait until the new loops
+  // are in place; calls from inside loop callbacks apply right away.
+  const deferred: Array<() => void> = [];
+  let committed = false;
+  const control = (action: () => void) => {
+    if (committed) action();
+    else deferred.push(action);
+  };
+
+  const guard = new LoopGuard(CALLBACK_BUDGET_MS);
+
+  // Every buffer compiled during this evaluation, for error locations
+  const compiled: Map<string, CompiledSource> = new Map();
+  const locate = createLocator(compiled);
+  // Tag an error with its position in the buffer, keeping the first one found
+  const located = (err: LocatedError) => {
+    if (err instanceof Error && !err.location) {
+      err.location = locate(err) ?? undefined;
+    }
+    return err;
+  };
+
+  // Loop whose callback is running, or else the buffer being evaluated,
+  // so print() output says where it came from
+  let speaker = sources.file;
+  const speaking = <T>(name: string, action: () => T): T => {
+    const previous = speaker;
+    speaker = name;
+    try {
+      return action();
+    } finally {
+      speaker = previous;
+    }
+  };
+  const writer = (level: keyof SketchLog) => (...args: unknown[]) => {
+    logCallback(formatArgs(args), level, locate(new Error()) ?? undefined, speaker);
+  };
+  const log: SketchLog = { debug: writer('debug'), info: writer('info'), warn: writer('warn'), error: writer('error') };
+
+  const context: SandboxContext = {
+    ...rig.instruments,
+
+    // Define the custom loop function for the user
+    loop: (name, interval, callback) => {
+      if (!(Tone.Time(interval).toTicks() > 0)) {
+        throw new Error(`Invalid interval '${interval}' for loop '${name}'`);
+      }
+      definitions.set(name, {
+        name,
+        interval,
+        callback: (time) => {
+          try {
+            speaking(name, () => guard.run(CALLBACK_BUDGET_MS, `loop '${name}'`, () => callback(time)));
+          } catch (err: any) {
+            throw located(err);
+          }
+        },
+      });
+    },
+
+    // Compile mini-notation into a loop that plays one cycle per interval
+    pattern: (name, source, target, options = {}) => {
+      const cycle = options.cycle ?? "1m";
+      let tree: PatternNode;
+      try {
+        tree = parsePattern(source);
+      } catch (err: any) {
+        throw new Error(`Pattern '${name}': ${err.message}`);
+      }
+      const cycleTicks = Tone.Time(cycle).toTicks();
+
+      context.loop(name, cycle, (time) => {
+        const startTicks = loops.ticksAt(time);
+        const index = Math.round(startTicks / cycleTicks);
+        const cycleSeconds = Tone.Time(cycle).toSeconds();
+        queryPattern(tree, index).forEach((event) => {
+          // The cycle start already got the Transport's swing
+          const swing = event.begin > 0 ? transport.swingDelay(index * cycleTicks + event.begin * cycleTicks) : 0;
+          triggerPatternEvent(target, event.value, time + event.begin * cycleSeconds + swing, event.duration * cycleSeconds);
+        });
+      });
+    },
+
+    mute: (...names) => control(() => loops.mute(...names)),
+    solo: (...names) => control(() => loops.solo(...names)),
+    unmute: (...names) => control(() => loops.unmute(...names)),
+    kill: (name) => control(() => {
+      if (loops.kill(name)) logCallback(`Killed loop: ${name}`, 'info');
+    }),
+
+    // Checked now so a bad call fails the evaluation; started with the new loops
+    rampBpm: (bpm, duration, time) => {
+      checkRamp(bpm, duration);
+      control(() => transport.rampBpm(bpm, duration, time));
+    },
+
+    // Key changes in the transport bar reach running loops on their next call
+    key: transport.current.key,
+    scale: (tonic, mode) => theory.scale(tonic ?? transport.current.key, mode),
+    chord: theory.chord,
+    progression: (numerals, key, options) => theory.progression(numerals, key ?? transport.current.key, options),
+    quantize: (note, keyOrScale) => theory.quantize(note, keyOrScale ?? transport.current.key),
+    euclid,
+
+    mixer: rig.mixer.controls(),
+    fx: rig.fx.units,
+    send: (source, fx, amount, rampTime) => {
+      rig.fx.send(channelOf(rig, source), fx, amount, rampTime);
+    },
+
+    sample: (name) => rig.samples.player(name),
+    sampler: (urls, options) => rig.samples.sampler(urls, options),
+
+    // A string names a saved preset, which must be for the same type.
+    // Voices change when the run commits, or right away from a loop callback.
+    instrument: (name, type, options = {}) => {
+      let settings = options;
+      if (typeof options === 'string') {
+        const preset = presetLibrary.require(options);
+        if (preset.type !== type) throw new Error(`Preset '${options}' is for ${preset.type} voices, not ${type}`);
+        settings = preset.options;
+      }
+      const voice = rig.voices.declare(name, type, settings as Record<string, any>, voiceRun);
+      if (committed) rig.voices.commit(voiceRun);
+      return voice;
+    },
+
+    ...createControls(controls, controlRun),
+
+    print: log.info,
+    log,
+
+    Tone,
+  };
+
+  // Strict user code runs inside a sloppy `with` wrapper whose scope is the sandbox.
+  // The wrapper takes exactly one line so stack positions map back to the buffer.
+  const compile = (file: string, source: string): Function => {
+    const linked = linkModule(source);
+    const instrumented = instrumentLoops(linked, guardConstructors(linked));
+    compiled.set(file, { code: linked, inserts: instrumented.inserts, wrapperLines: 1 });
+    try {
+      return new Function(
+        '__scope',
+        `with (__scope) { return (function () { "use strict";\n${instrumented.code}\n}).call(undefined); }\n//# sourceURL=${sketchUrl(file)}`
+      );
+    } catch (err: any) {
+      (err as LocatedError).location = locateSyntaxError(source, file) ?? undefined;
+      throw err;
+    }
+  };
+
+  // Buffers run once per evaluation, on first import, sharing the sandbox
+  const modules: Map<string, Record<string, unknown>> = new Map();
+  const importing: string[] = [sources.file];
+
+  const runModule = (file: string, source: string): Record<string, unknown> => {
+    const exports: Record<string, unknown> = {};
+    const run = compile(file, source);
+    speaking(file, () => run(createScope({ ...context, [GUARD_NAME]: guard.check, [CONSTRUCTOR_GUARD_NAME]: constructorOf, [IMPORT_NAME]: importModule, [EXPORTS_NAME]: exports })));
+    return exports;
+  };
+
+  const importModule = (specifier: string) => {
+    const file = resolveModuleName(specifier);
+    if (importing.includes(file)) {
+      throw new Error(`Circular import: ${[...importing, file].join(' -> ')}`);
+    }
+    const cached = modules.get(file);
+    if (cached) return cached;
+    const source = sources.files[file];
+    if (source === undefined) throw new Error(`Cannot import '${specifier}': there is no buffer named ${file}`);
+
+    importing.push(file);
+    try {
+      const exports = runModule(file, source);
+      modules.set(file, exports);
+      return exports;
+    } finally {
+      importing.pop();
+    }
+  };
+
+  // Execute the user's code
+  try {
+    guard.run(EVALUATION_BUDGET_MS, 'evaluation', () => runModule(sources.file, code));
+  } catch (err: any) {
+    rig.voices.discard(voiceRun);
+    throw located(err);
+  }
+
+  return {
+    definitions,
+    commit: () => {
+      committed = true;
+      rig.voices.commit(voiceRun);
+      deferred.forEach((action) => action());
+    },
+    instruments: voiceRun.names,
+    controls: controlRun,
+  };
+}
@@ -0,0 +1,180 @@
+import { SandboxContext } from './sandbox';
+
+// Type declarations the editor uses for completion and signature help.
+// Sketches only see what SandboxContext exposes, so the globals below are
+// keyed by it: adding a name to the sandbox without declaring it here is a
+// compile error.
+
+// The slice of Tone.js sketches typically reach for
+const TONE_DECLARATIONS = `
+declare namespace Tone {
+  type Time = string | number;
+  type Frequency = string | number;
+
+  class Param {
+    value: number;
+    setValueAtTime(value: number, time: Time): this;
+    rampTo(value: number, rampTime?: Time, startTime?: Time): this;
+    linearRampTo(value: number, rampTime: Time, startTime?: Time): this;
+    exponentialRampTo(value: number, rampTime: Time, startTime?: Time): this;
+  }
+
+  class ToneAudioNode {
+    connect(destination: ToneAudioNode | Param): this;
+    disconnect(destination?: ToneAudioNode | Param): this;
+    chain(...nodes: ToneAudioNode[]): this;
+    fan(...nodes: ToneAudioNode[]): this;
+    toDestination(): this;
+    dispose(): this;
+    toSeconds(time?: Time): number;
+  }
+
+  class Instrument extends ToneAudioNode {
+    volume: Param;
+    triggerAttack(note: Frequency, time?: Time, velocity?: number): this;
+    triggerRelease(time?: Time): this;
+    triggerAttackRelease(note: Frequency, duration: Time, time?: Time, velocity?: number): this;
+    set(options: Record<string, any>): this;
+  }
+
+  class Synth extends Instrument { constructor(options?: Record<string, any>); frequency: Param; detune: Param; }
+  class MonoSynth extends Synth {}
+  class AMSynth extends Synth {}
+  class FMSynth extends Synth {}
+  class DuoSynth extends Synth {}
+  class MembraneSynth extends Synth {}
+  class MetalSynth extends Synth {}
+  class PluckSynth extends Instrument { constructor(options?: Record<string, any>); }
+
+  class NoiseSynth extends ToneAudioNode {
+    constructor(options?: Record<string, any>);
+    volume: Param;
+    triggerAttack(time?: Time, velocity?: number): this;
+    triggerRelease(time?: Time): this;
+    triggerAttackRelease(duration: Time, time?: Time, velocity?: number): this;
+  }
+
+  class PolySynth extends ToneAudioNode {
+    constructor(voice?: typeof Synth, options?: Record<string, any>);
+    volume: Param;
+    triggerAttack(notes: Frequency | Frequency[], time?: Time, velocity?: number): this;
+    triggerRelease(notes: Frequency | Frequency[], time?: Time): this;
+    triggerAttackRelease(notes: Frequency | Frequency[], duration: Time | Time[], time?: Time, velocity?: number): this;
+    releaseAll(time?: Time): this;
+    set(options: Record<string, any>): this;
+  }
+
+  class Sampler extends ToneAudioNode {
+    constructor(urls: Record<string, string>, options?: Record<string, any>);
+    volume: Param;
+    triggerAttack(notes: Frequency | Frequency[], time?: Time, velocity?: number): this;
+    triggerRelease(notes: Frequency | Frequency[], time?: Time): this;
+    triggerAttackRelease(notes: Frequency | Frequency[], duration: Time | Time[], time?: Time, velocity?: number): this;
+    releaseAll(time?: Time): this;
+  }
+
+  class Player extends ToneAudioNode {
+    constructor(url?: string);
+    volume: Param;
+    playbackRate: number;
+    loop: boolean;
+    reverse: boolean;
+    start(time?: Time, offset?: Time, duration?: Time): this;
+    stop(time?: Time): this;
+  }
+
+  class Effect extends ToneAudioNode { wet: Param; }
+  class Reverb extends Effect { constructor(decay?: number); decay: Time; }
+  class FeedbackDelay extends Effect { constructor(delayTime?: Time, feedback?: number); delayTime: Param; feedback: Param; }
+  class Distortion extends Effect { constructor(distortion?: number); distortion: number; }
+  class Chorus extends Effect { constructor(frequency?: number, delayTime?: number, depth?: number); }
+  class BitCrusher extends Effect { constructor(bits?: number); }
+  class AutoFilter extends Effect { constructor(frequency?: Frequency); frequency: Param; }
+  class Filter extends ToneAudioNode {
+    constructor(frequency?: Frequency, type?: string);
+    frequency: Param;
+    Q: Param;
+    type: string;
+  }
+  class LFO extends ToneAudioNode { constructor(frequency?: Frequency, min?: number, max?: number); start(time?: Time): this; }
+  class Volume extends ToneAudioNode { volume: Param; mute: boolean; }
+  class Channel extends ToneAudioNode { volume: Param; pan: Param; mute: boolean; solo: boolean; }
+
+  interface TimeClass { toSeconds(): number; toTicks(): number; toNotation(): string; }
+  interface FrequencyClass { toMidi(): number; toNote(): string; toFrequency(): number; transpose(interval: number): FrequencyClass; }
+  function Time(value: Time): TimeClass;
+  function Frequency(value: Frequency, units?: string): FrequencyClass;
+  function now(): number;
+  function getTransport(): { bpm: Param; position: Time; seconds: number; ticks: number };
+}
+`;
+
+const GLOBALS: Record<keyof SandboxContext, string> = {
+  synth: 'declare const synth: Tone.MonoSynth;',
+  kick: 'declare const kick: Tone.MembraneSynth;',
+  hat: 'declare const hat: Tone.MetalSynth;',
+  snare: 'declare const snare: Tone.NoiseSynth;',
+  poly: 'declare const poly: Tone.PolySynth;',
+  loop: `/** Run callback every interval, on the Transport. Re-defining a name hot-swaps it on the next bar. */
+declare function loop(name: string, interval: Tone.Time, callback: (time: number) => void): void;`,
+  pattern: `/** Play mini-notation ("c2 ~ [e2 g2] <a2 b2>") on an instrument, sample or callback, one cycle per bar. */
+declare function pattern(name: string, source: string, target: Tone.ToneAudioNode | ((value: string, time: number, duration: number) => void), options?: { cycle?: Tone.Time }): void;`,
+  mute: '/** Silence loops by name. */\ndeclare function mute(...names: string[]): void;',
+  solo: '/** Only let the named loops play. */\ndeclare function solo(...names: string[]): void;',
+  unmute: '/** Unmute loops by name; with no names, clear every mute and solo. */\ndeclare function unmute(...names: string[]): void;',
+  kill: '/** Stop a loop immediately. */\ndeclare function kill(name: string): void;',
+  rampBpm: `/** Glide the tempo to bpm (60-200) over duration, e.g. rampBpm(140, "8m"). Pass a loop's time to start it there. */
+declare function rampBpm(bpm: number, duration: Tone.Time, time?: number): void;`,
+  key: '/** The project key from the transport bar, e.g. "C minor". Theory helpers default to it. */\ndeclare const key: string;',
+  scale: `/** Notes of a scale from its tonic, e.g. scale("C", "dorian") or scale("D2 minor"). Defaults to the project key, octave 3. */
+declare function scale(tonic?: string, mode?: string): string[];`,
+  chord: `/** Notes of a chord symbol, e.g. chord("Fm7"), chord("C/E"), chord("Bbmaj7", { inversion: 1, voicing: "drop2" }). */
+declare function chord(symbol: string, options?: { inversion?: number; voicing?: "close" | "open" | "drop2" | "drop3"; octave?: number }): string[];`,
+  progression: `/** Chords for roman numerals in a key (the project key by default), e.g. progression("i iv V7"). Case picks major or minor. */
+declare function progression(numerals: string, key?: string, options?: { inversion?: number; voicing?: "close" | "open" | "drop2" | "drop3"; octave?: number }): string[][];`,
+  quantize: `/** Snap a note name or MIDI number to the nearest note of a key or scale (the project key by default). */
+declare function quantize(note: string | number, keyOrScale?: string | string[]): string;`,
+  euclid: `/** Spread pulses as evenly as possible over steps, e.g. euclid(3, 8) for a tresillo. */
+declare function euclid(pulses: number, steps: number, rotation?: number): boolean[];`,
+  mixer: `declare const mixer: {
+  volume(name: string, db: number, rampTime?: Tone.Time): void;
+  pan(name: string, value: number, rampTime?: Tone.Time): void;
+  mute(name: string, on?: boolean): void;
+  solo(name: string, on?: boolean): void;
+  channel(name: string): Tone.Channel | Tone.PanVol;
+  master: Tone.Volume;
+};`,
+  fx: 'declare const fx: { reverb: Tone.Reverb; delay: Tone.FeedbackDelay; distortion: Tone.Distortion; filter: Tone.Filter };',
+  send: `/** Send a channel (or instrument) to an FX return. amount is 0..1. */
+declare function send(source: Tone.ToneAudioNode | string, fx: "reverb" | "delay" | "distortion" | "filter", amount: number, rampTime?: Tone.Time): void;`,
+  sample: '/** A player for a sample from the library, routed to its own channel, "sample.<name>". */\ndeclare function sample(name: string): Tone.Player;',
+  sampler: `/** A pitched sampler from library samples keyed by note, e.g. { C3: "piano_c3" }. */
+declare function sampler(urls: Record<string, string>, options?: { name?: string; attack?: number; release?: number }): Tone.Sampler;`,
+  instrument: `/** Declare a voice on its own mixer channel, kept across re-runs by name. options are Tone.js options or a saved preset name. */
+declare function instrument(name: string, type: "synth" | "mono" | "am" | "fm" | "duo" | "membrane" | "metal", options?: Record<string, any> | string): Tone.Synth;
+declare function instrument(name: string, type: "noise", options?: Record<string, any> | string): Tone.NoiseSynth;
+declare function instrument(name: string, type: "pluck", options?: Record<string, any> | string): Tone.PluckSynth;
+declare function instrument(name: string, type: "poly", options?: Record<string, any> | string): Tone.PolySynth;`,
+  knob: `interface Control<T> {
+  readonly name: string;
+  /** The current setting, read live: loop callbacks see every change. */
+  readonly value: T;
+  /** Keep a Param in step with the control, or a property: map(synth.filterEnvelope, "baseFrequency"). */
+  map(param: Tone.Param, rampTime?: Tone.Time): this;
+  map(target: object, property: string): this;
+}
+/** A knob in the CONTROLS panel. Keeps its value across re-runs. curve "exp" suits frequencies. */
+declare function knob(name: string, options?: { min?: number; max?: number; default?: number; step?: number; curve?: "linear" | "exp" }): Control<number>;`,
+  toggle: '/** An on/off switch in the CONTROLS panel. Keeps its value across re-runs. */\ndeclare function toggle(name: string, options?: { default?: boolean }): Control<boolean>;',
+  xy: `/** A two-axis pad in the CONTROLS panel; map its x and y separately. */
+declare function xy(name: string, options?: { x?: [number, number]; y?: [number, number]; default?: [number, number] }): { readonly name: string; readonly value: { x: number; y: number }; x: Control<number>; y: Control<number> };`,
+  print: '/** Write to KERNEL_LOG, tagged with the loop (or buffer) it was called from. */\ndeclare function print(...args: any[]): void;',
+  log: `/** print() at a level; KERNEL_LOG can filter by level. */
+declare const log: { debug(...args: any[]): void; info(...args: any[]): void; warn(...args: any[]): void; error(...args: any[]): void };`,
+  Tone: TONE_DECLARATIONS,
+};
+
+// console is the one safe global outside the ES library
+const CONSOLE_DECLARATION = 'declare const console: { log(...args: any[]): void; warn(...args: any[]): void; error(...args: any[]): void };';
+
+export const SANDBOX_DECLARATIONS = [...Object.values(GLOBALS), CONSOLE_DECLARATION].join('\n\n');
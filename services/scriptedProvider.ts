@@ -0,0 +1,46 @@
+import { AgentReply, ChatSession, LlmProvider, SessionOptions, ToolResult, TurnOptions, cancelledError } from './llmProvider';
+
+// What the fake model is reacting to: a user message or tool results
+export type ScriptInput =
+  | { kind: 'message'; message: string }
+  | { kind: 'toolResults'; results: ToolResult[] };
+
+// Returns the reply for one turn. Turn counts from 0 across the session.
+export type ScriptStep = (input: ScriptInput, turn: number) => AgentReply;
+
+const DEMO_SKETCH = `loop("kick", "4n", (time) => kick.triggerAttackRelease("C1", "8n", time));
+pattern("hats", "x*8", hat);`;
+
+// Default script: answer every message by running a small beat, then report
+// what the tool said. Enough to drive the agent loop end to end offline.
+const demoScript: ScriptStep = (input, turn) => {
+  if (input.kind === 'message') {
+    return {
+      toolCalls: [{ id: `mock-${turn}`, name: 'run_generated_code', args: { code: DEMO_SKETCH } }],
+    };
+  }
+  return {
+    text: `[MOCK] ${input.results.map((r) => `${r.call.name}: ${r.result}`).join(' / ')}`,
+    toolCalls: [],
+  };
+};
+
+// Deterministic stand-in for a model: same inputs, same replies, no network.
+export class ScriptedProvider implements LlmProvider {
+  constructor(private script: ScriptStep = demoScript) {}
+
+  public createSession(_options: SessionOptions): ChatSession {
+    let turn = 0;
+    const reply = async (input: ScriptInput, options: TurnOptions = {}) => {
+      if (options.signal?.aborted) throw cancelledError();
+      const result = this.script(input, turn++);
+      // Streamed word by word, like a real model would
+      result.text?.split(/(?<=\s)/).forEach((word) => options.onText?.(word));
+      return result;
+    };
+    return {
+      send: (message, options) => reply({ kind: 'message', message }, options),
+      sendToolResults: (results, options) => reply({ kind: 'toolResults', results }, options),
+    };
+  }
+}
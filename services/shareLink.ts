@@ -0,0 +1,75 @@
+import { clampBpm, normalizeTransport } from './transport';
+import { isVisMode } from './visualizer';
+import { TransportSettings, VisMode } from '../types';
+
+// Sketches travel in the URL fragment, deflated and base64url-encoded, so
+// sharing needs no backend and the code never reaches a server.
+
+const FRAGMENT_KEY = 'sketch';
+const SHARE_VERSION = 1;
+
+export interface SharedSketch {
+  code: string;
+  bpm: number;
+  transport: TransportSettings;
+  visMode: VisMode;
+}
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large sketches don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+export async function shareUrl(sketch: SharedSketch): Promise<string> {
+  const json = JSON.stringify({ v: SHARE_VERSION, ...sketch });
+  const packed = await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  const url = new URL(window.location.href);
+  url.hash = `${FRAGMENT_KEY}=${toBase64Url(packed)}`;
+  return url.toString();
+}
+
+// The sketch in a location hash, null when there is none. Throws when the
+// link is there but damaged.
+export async function readSharedSketch(hash: string): Promise<SharedSketch | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const payload = params.get(FRAGMENT_KEY);
+  if (!payload) return null;
+
+  let data: any;
+  try {
+    const json = new TextDecoder().decode(await pipe(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The shared link is damaged or incomplete');
+  }
+  if (typeof data?.code !== 'string') throw new Error('The shared link has no code in it');
+  if (data.v > SHARE_VERSION) throw new Error('The shared link was made by a newer version of the shell');
+
+  return {
+    code: data.code,
+    bpm: typeof data.bpm === 'number' ? clampBpm(data.bpm) : 120,
+    transport: normalizeTransport(data.transport),
+    visMode: isVisMode(data.visMode) ? data.visMode : 'waveform',
+  };
+}
+
+// Drop the fragment without adding a history entry
+export function clearSharedSketch() {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+}
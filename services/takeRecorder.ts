@@ -0,0 +1,84 @@
+import * as Tone from 'tone';
+import { Take } from '../types';
+
+// File extension for the container the browser's MediaRecorder produced
+const extensionFor = (mimeType: string) => {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+};
+
+// Records the master output in real time, so everything that happened during
+// a performance (tempo moves, re-evaluations, mixer rides) ends up in the take.
+export class TakeRecorder {
+  private recorder: Tone.Recorder | null = null;
+  private takes: Take[] = [];
+  private takeCount = 0;
+  private startedAt = 0;
+  private listeners: Set<() => void> = new Set();
+
+  // Tap the output once the engine has built it
+  public attach(source: Tone.ToneAudioNode) {
+    if (this.recorder) return;
+    this.recorder = new Tone.Recorder();
+    source.connect(this.recorder);
+  }
+
+  public static isSupported(): boolean {
+    return Tone.Recorder.supported;
+  }
+
+  public get isRecording(): boolean {
+    return this.recorder?.state === 'started';
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public list(): Take[] {
+    return this.takes;
+  }
+
+  public async start() {
+    if (!this.recorder) throw new Error("Recorder is not attached to an output");
+    if (this.isRecording) return;
+    await this.recorder.start();
+    this.startedAt = performance.now();
+    this.notify();
+  }
+
+  public async stop(): Promise<Take> {
+    if (!this.recorder || !this.isRecording) throw new Error("Not recording");
+    // MediaRecorder output carries no reliable duration, so time it ourselves
+    const duration = (performance.now() - this.startedAt) / 1000;
+    const blob = await this.recorder.stop();
+    const mimeType = blob.type || this.recorder.mimeType;
+    this.takeCount++;
+    const take: Take = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `take_${String(this.takeCount).padStart(2, '0')}.${extensionFor(mimeType)}`,
+      url: URL.createObjectURL(blob),
+      mimeType,
+      duration,
+      timestamp: new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second:'2-digit' }),
+      size: blob.size,
+    };
+    this.takes = [...this.takes, take];
+    this.notify();
+    return take;
+  }
+
+  public remove(id: string) {
+    const take = this.takes.find((t) => t.id === id);
+    if (!take) return;
+    URL.revokeObjectURL(take.url);
+    this.takes = this.takes.filter((t) => t.id !== id);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { chord, noteToMidi, parseKey, progression, quantize, scale } from './theory';
+
+describe('noteToMidi', () => {
+  it('numbers notes the way Tone.js does', () => {
+    expect(noteToMidi('A4')).toBe(69);
+    expect(noteToMidi('C-1')).toBe(0);
+    expect(noteToMidi('Eb3')).toBe(51);
+    expect(noteToMidi('Cb4')).toBe(59);
+  });
+});
+
+describe('parseKey', () => {
+  it('splits a key into tonic and mode', () => {
+    expect(parseKey('C minor')).toEqual({ tonic: 'C', mode: 'minor' });
+    expect(parseKey(' F#   dorian ')).toEqual({ tonic: 'F#', mode: 'dorian' });
+  });
+
+  it('reads a bare tonic as major', () => {
+    expect(parseKey('Bb')).toEqual({ tonic: 'Bb', mode: 'major' });
+  });
+
+  it('rejects anything that is not a key', () => {
+    expect(() => parseKey('')).toThrow(/Not a key/);
+    expect(() => parseKey('C minor please')).toThrow(/Not a key/);
+    expect(() => parseKey('H minor')).toThrow(/Not a note/);
+    expect(() => parseKey('C spooky')).toThrow(/Unknown scale/);
+  });
+});
+
+describe('scale', () => {
+  it('spells scales by letter from octave 3', () => {
+    expect(scale('C', 'minor')).toEqual(['C3', 'D3', 'Eb3', 'F3', 'G3', 'Ab3', 'Bb3']);
+    expect(scale('F#', 'dorian')).toEqual(['F#3', 'G#3', 'A3', 'B3', 'C#4', 'D#4', 'E4']);
+  });
+
+  it('takes a key string, with the octave on the tonic', () => {
+    expect(scale('D2 minor')).toEqual(['D2', 'E2', 'F2', 'G2', 'A2', 'Bb2', 'C3']);
+  });
+
+  it('knows pentatonic scales and mode aliases', () => {
+    expect(scale('C', 'minorPentatonic')).toEqual(['C3', 'Eb3', 'F3', 'G3', 'Bb3']);
+    expect(scale('A', 'aeolian')).toEqual(scale('A', 'minor'));
+  });
+
+  it('rejects unknown scales', () => {
+    expect(() => scale('C', 'bebop')).toThrow(/Unknown scale 'bebop'/);
+    expect(() => scale('C', 'constructor')).toThrow(/Unknown scale/);
+  });
+});
+
+describe('quantize', () => {
+  it('snaps to the nearest note of the key, ties going down', () => {
+    expect(quantize('C#3', 'C major')).toBe('C3');
+    expect(quantize('E3', 'C minor')).toBe('Eb3');
+    expect(quantize('G3', 'C minor')).toBe('G3');
+  });
+
+  it('accepts MIDI numbers and keeps the octave of the input', () => {
+    expect(quantize(61, 'C minor')).toBe('C4');
+    expect(quantize(83, 'C minor')).toBe('Bb5');
+  });
+
+  it('accepts an explicit scale', () => {
+    expect(quantize('F#3', ['C3', 'E3', 'G3'])).toBe('G3');
+    expect(() => quantize('C3', [])).toThrow(/non-empty scale/);
+  });
+});
+
+describe('chord', () => {
+  it('builds chords from symbols', () => {
+    expect(chord('C')).toEqual(['C3', 'E3', 'G3']);
+    expect(chord('Fm7')).toEqual(['F3', 'Ab3', 'C4', 'Eb4']);
+    expect(chord('Bbmaj7', { octave: 2 })).toEqual(['Bb2', 'D3', 'F3', 'A3']);
+    expect(chord('Bø')).toEqual(['B3', 'D4', 'F4', 'A4']);
+  });
+
+  it('inverts by moving the lowest notes up an octave', () => {
+    expect(chord('C', { inversion: 1 })).toEqual(['E3', 'G3', 'C4']);
+    expect(chord('C', { inversion: 2 })).toEqual(['G3', 'C4', 'E4']);
+  });
+
+  it('applies open and drop voicings', () => {
+    expect(chord('Cmaj7', { voicing: 'open' })).toEqual(['C3', 'G3', 'E4', 'B4']);
+    expect(chord('Cmaj7', { voicing: 'drop2' })).toEqual(['G2', 'C3', 'E3', 'B3']);
+    expect(chord('Cmaj7', { voicing: 'drop3' })).toEqual(['E2', 'C3', 'G3', 'B3']);
+    expect(chord('Cmaj7', { inversion: 1, voicing: 'drop2' })).toEqual(['B2', 'E3', 'G3', 'C4']);
+  });
+
+  it('puts a slash bass below the chord', () => {
+    expect(chord('C/E')).toEqual(['E2', 'C3', 'E3', 'G3']);
+  });
+
+  it('rejects unknown chords and voicings', () => {
+    expect(() => chord('Cfoo')).toThrow(/Unknown chord quality 'foo'/);
+    expect(() => chord('CtoString')).toThrow(/Unknown chord quality 'toString'/);
+    expect(() => chord('X7')).toThrow(/Not a chord/);
+    expect(() => chord('C', { voicing: 'wide' as any })).toThrow(/Unknown voicing/);
+  });
+});
+
+describe('progression', () => {
+  it('reads numeral case as major or minor', () => {
+    expect(progression('i iv v', 'C minor')).toEqual([
+      ['C3', 'Eb3', 'G3'],
+      ['F3', 'Ab3', 'C4'],
+      ['G3', 'Bb3', 'D4'],
+    ]);
+  });
+
+  it('adds sevenths and other suffixes', () => {
+    expect(progression('ii7 V7 Imaj7', 'C major')).toEqual([
+      ['D3', 'F3', 'A3', 'C4'],
+      ['G3', 'B3', 'D4', 'F4'],
+      ['C3', 'E3', 'G3', 'B3'],
+    ]);
+    expect(progression('vii°', 'C major')).toEqual([['B3', 'D4', 'F4']]);
+  });
+
+  it('takes roots from the key, and moves them with b and #', () => {
+    expect(progression('VII', 'C minor')).toEqual([['Bb3', 'D4', 'F4']]);
+    expect(progression('bVII', 'C major')).toEqual([['Bb3', 'D4', 'F4']]);
+  });
+
+  it('passes voicing options through', () => {
+    expect(progression('I', 'C major', { inversion: 1 })).toEqual([['E3', 'G3', 'C4']]);
+  });
+
+  it('rejects bad numerals and keys', () => {
+    expect(() => progression('i x', 'C minor')).toThrow(/Not a roman numeral: 'x'/);
+    expect(() => progression('i viii', 'C minor')).toThrow(/Numeral 'viii'/);
+    expect(() => progression('I', 'C minorPentatonic')).toThrow(/seven-note key/);
+  });
+});
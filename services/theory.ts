@@ -0,0 +1,270 @@
+// Scales, chords and roman-numeral progressions as plain note names ("Eb3")
+// that every instrument accepts. Pure functions, no Tone.js: notes are
+// spelled by letter, so C minor has Eb and Bb rather than D# and A#.
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+// Octave used when a note or chord name does not give one
+const DEFAULT_OCTAVE = 3;
+
+interface Spelled {
+  // Index into LETTERS
+  letter: number;
+  // Sharps positive, flats negative
+  accidental: number;
+  octave: number;
+}
+
+// An interval as semitones plus letter steps (a minor third is 3 semitones, 2 letters)
+type Interval = [number, number];
+
+const NOTE_PATTERN = /^([A-Ga-g])(#{1,2}|b{1,2}|x)?(-?\d+)?$/;
+
+function parseNote(name: string, defaultOctave = DEFAULT_OCTAVE): Spelled {
+  const match = NOTE_PATTERN.exec(name.trim());
+  if (!match) throw new Error(`Not a note: '${name}'`);
+  const accidentals = match[2] ?? '';
+  return {
+    letter: LETTERS.indexOf(match[1].toUpperCase()),
+    accidental: accidentals === 'x' ? 2 : accidentals.startsWith('#') ? accidentals.length : -accidentals.length,
+    octave: match[3] === undefined ? defaultOctave : parseInt(match[3], 10),
+  };
+}
+
+const midiOf = (note: Spelled) => (note.octave + 1) * 12 + LETTER_SEMITONES[note.letter] + note.accidental;
+
+const accidentalText = (accidental: number) => accidental > 0 ? '#'.repeat(accidental) : 'b'.repeat(-accidental);
+
+const format = (note: Spelled) => `${LETTERS[note.letter]}${accidentalText(note.accidental)}${note.octave}`;
+
+function transpose(note: Spelled, [semitones, steps]: Interval): Spelled {
+  const letterIndex = note.letter + steps;
+  const letter = ((letterIndex % 7) + 7) % 7;
+  const octave = note.octave + Math.floor(letterIndex / 7);
+  const natural = (octave + 1) * 12 + LETTER_SEMITONES[letter];
+  return { letter, octave, accidental: midiOf(note) + semitones - natural };
+}
+
+const shiftOctave = (note: Spelled, octaves: number): Spelled => ({ ...note, octave: note.octave + octaves });
+
+export function noteToMidi(name: string): number {
+  return midiOf(parseNote(name));
+}
+
+// Scales as [semitones, letter steps] from the tonic
+const SCALES: Record<string, Interval[]> = {
+  major: [[0, 0], [2, 1], [4, 2], [5, 3], [7, 4], [9, 5], [11, 6]],
+  minor: [[0, 0], [2, 1], [3, 2], [5, 3], [7, 4], [8, 5], [10, 6]],
+  dorian: [[0, 0], [2, 1], [3, 2], [5, 3], [7, 4], [9, 5], [10, 6]],
+  phrygian: [[0, 0], [1, 1], [3, 2], [5, 3], [7, 4], [8, 5], [10, 6]],
+  lydian: [[0, 0], [2, 1], [4, 2], [6, 3], [7, 4], [9, 5], [11, 6]],
+  mixolydian: [[0, 0], [2, 1], [4, 2], [5, 3], [7, 4], [9, 5], [10, 6]],
+  locrian: [[0, 0], [1, 1], [3, 2], [5, 3], [6, 4], [8, 5], [10, 6]],
+  harmonicMinor: [[0, 0], [2, 1], [3, 2], [5, 3], [7, 4], [8, 5], [11, 6]],
+  melodicMinor: [[0, 0], [2, 1], [3, 2], [5, 3], [7, 4], [9, 5], [11, 6]],
+  majorPentatonic: [[0, 0], [2, 1], [4, 2], [7, 4], [9, 5]],
+  minorPentatonic: [[0, 0], [3, 2], [5, 3], [7, 4], [10, 6]],
+  blues: [[0, 0], [3, 2], [5, 3], [6, 4], [7, 4], [10, 6]],
+  wholeTone: [[0, 0], [2, 1], [4, 2], [6, 3], [8, 4], [10, 5]],
+  chromatic: [[0, 0], [1, 0], [2, 1], [3, 2], [4, 2], [5, 3], [6, 3], [7, 4], [8, 5], [9, 5], [10, 6], [11, 6]],
+};
+
+const SCALE_ALIASES: Record<string, string> = {
+  ionian: 'major',
+  aeolian: 'minor',
+  harmonicminor: 'harmonicMinor',
+  melodicminor: 'melodicMinor',
+  majorpentatonic: 'majorPentatonic',
+  minorpentatonic: 'minorPentatonic',
+  pentatonic: 'majorPentatonic',
+  wholetone: 'wholeTone',
+};
+
+export const SCALE_NAMES = Object.keys(SCALES);
+
+// Seven-note scales, the ones a key (and roman numerals) can be in
+export const KEY_MODES = SCALE_NAMES.filter((name) => SCALES[name].length === 7);
+
+function scaleIntervals(mode: string): Interval[] {
+  const alias = mode.toLowerCase();
+  const name = Object.hasOwn(SCALES, mode) ? mode : Object.hasOwn(SCALE_ALIASES, alias) ? SCALE_ALIASES[alias] : undefined;
+  if (!name) throw new Error(`Unknown scale '${mode}'. Try one of: ${SCALE_NAMES.join(', ')}`);
+  return SCALES[name];
+}
+
+export interface Key {
+  tonic: string;
+  mode: string;
+}
+
+// "C minor", "F# dorian"; a bare tonic is major
+export function parseKey(key: string): Key {
+  const [tonic, mode = 'major', ...rest] = key.trim().split(/\s+/);
+  if (!tonic || rest.length > 0) throw new Error(`Not a key: '${key}'. Write it like "C minor"`);
+  parseNote(tonic);
+  scaleIntervals(mode);
+  return { tonic, mode };
+}
+
+// The scale from its tonic upwards: scale("C", "dorian"), scale("D2 minor").
+// The tonic may carry an octave, otherwise it starts at octave 3.
+export function scale(tonic: string, mode?: string): string[] {
+  const key = mode === undefined ? parseKey(tonic) : { tonic, mode };
+  const root = parseNote(key.tonic);
+  return scaleIntervals(key.mode).map((interval) => format(transpose(root, interval)));
+}
+
+// Snap a note (name or MIDI number) to the nearest note of a key or scale.
+// Ties go down. The result is spelled the way the scale spells it.
+export function quantize(note: string | number, keyOrScale: string | string[]): string {
+  const midi = typeof note === 'number' ? Math.round(note) : noteToMidi(note);
+  const tones = (typeof keyOrScale === 'string' ? scale(keyOrScale) : keyOrScale).map((name) => parseNote(name));
+  if (tones.length === 0) throw new Error('quantize() needs a non-empty scale');
+
+  let best: Spelled | null = null;
+  let bestDistance = Infinity;
+  tones.forEach((tone) => {
+    const pitchClass = ((midiOf(tone) % 12) + 12) % 12;
+    // Candidates of this pitch class just below and above the note
+    const below = midi - ((((midi - pitchClass) % 12) + 12) % 12);
+    [below, below + 12].forEach((candidate) => {
+      const distance = Math.abs(candidate - midi);
+      if (distance < bestDistance || (distance === bestDistance && candidate < midi)) {
+        bestDistance = distance;
+        best = shiftOctave(tone, Math.round((candidate - midiOf(tone)) / 12));
+      }
+    });
+  });
+  return format(best!);
+}
+
+// Chord qualities as intervals above the root
+const CHORDS: Record<string, Interval[]> = {
+  '': [[0, 0], [4, 2], [7, 4]],
+  'm': [[0, 0], [3, 2], [7, 4]],
+  'dim': [[0, 0], [3, 2], [6, 4]],
+  'aug': [[0, 0], [4, 2], [8, 4]],
+  'sus2': [[0, 0], [2, 1], [7, 4]],
+  'sus4': [[0, 0], [5, 3], [7, 4]],
+  '6': [[0, 0], [4, 2], [7, 4], [9, 5]],
+  'm6': [[0, 0], [3, 2], [7, 4], [9, 5]],
+  '7': [[0, 0], [4, 2], [7, 4], [10, 6]],
+  'maj7': [[0, 0], [4, 2], [7, 4], [11, 6]],
+  'm7': [[0, 0], [3, 2], [7, 4], [10, 6]],
+  'mMaj7': [[0, 0], [3, 2], [7, 4], [11, 6]],
+  'dim7': [[0, 0], [3, 2], [6, 4], [9, 6]],
+  'm7b5': [[0, 0], [3, 2], [6, 4], [10, 6]],
+  '7sus4': [[0, 0], [5, 3], [7, 4], [10, 6]],
+  'add9': [[0, 0], [4, 2], [7, 4], [14, 8]],
+  '9': [[0, 0], [4, 2], [7, 4], [10, 6], [14, 8]],
+  'maj9': [[0, 0], [4, 2], [7, 4], [11, 6], [14, 8]],
+  'm9': [[0, 0], [3, 2], [7, 4], [10, 6], [14, 8]],
+};
+
+const CHORD_ALIASES: Record<string, string> = {
+  'M': '', 'maj': '', 'min': 'm', '-': 'm', '°': 'dim', 'o': 'dim', '+': 'aug', 'sus': 'sus4',
+  'M7': 'maj7', 'Δ': 'maj7', 'Δ7': 'maj7', 'min7': 'm7', '-7': 'm7',
+  '°7': 'dim7', 'o7': 'dim7', 'ø': 'm7b5', 'ø7': 'm7b5',
+};
+
+export type Voicing = 'close' | 'open' | 'drop2' | 'drop3';
+
+export interface ChordOptions {
+  // How many of the lowest notes move up an octave
+  inversion?: number;
+  voicing?: Voicing;
+  // Octave of the root, 3 by default
+  octave?: number;
+}
+
+function chordQuality(quality: string): Interval[] {
+  const name = Object.hasOwn(CHORDS, quality) ? quality : Object.hasOwn(CHORD_ALIASES, quality) ? CHORD_ALIASES[quality] : undefined;
+  const intervals = name === undefined ? undefined : CHORDS[name];
+  if (!intervals) throw new Error(`Unknown chord quality '${quality}'. Try one of: ${Object.keys(CHORDS).filter(Boolean).join(', ')}`);
+  return intervals;
+}
+
+function voice(notes: Spelled[], { inversion = 0, voicing = 'close' }: ChordOptions): Spelled[] {
+  let voiced = [...notes];
+  for (let i = 0; i < inversion; i++) {
+    const [lowest, ...rest] = voiced;
+    voiced = [...rest, shiftOctave(lowest, 1)];
+  }
+  const high = voiced.length - 1;
+  switch (voicing) {
+    case 'close':
+      break;
+    case 'open':
+      voiced = voiced.map((note, i) => i % 2 === 1 ? shiftOctave(note, 1) : note);
+      break;
+    case 'drop2':
+    case 'drop3': {
+      const index = high - (voicing === 'drop2' ? 1 : 2);
+      if (index >= 0) voiced[index] = shiftOctave(voiced[index], -1);
+      break;
+    }
+    default:
+      throw new Error(`Unknown voicing '${voicing}'. Use close, open, drop2 or drop3`);
+  }
+  return voiced.sort((a, b) => midiOf(a) - midiOf(b));
+}
+
+function buildChord(root: Spelled, intervals: Interval[], options: ChordOptions): Spelled[] {
+  return voice(intervals.map((interval) => transpose(root, interval)), options);
+}
+
+// chord("Fm7"), chord("C/E"), chord("Bbmaj7", { inversion: 1, voicing: "drop2" })
+export function chord(symbol: string, options: ChordOptions = {}): string[] {
+  const [name, bass] = symbol.trim().split('/');
+  const match = /^([A-Ga-g](?:#{1,2}|b{1,2})?)(.*)$/.exec(name);
+  if (!match) throw new Error(`Not a chord: '${symbol}'`);
+  const root = parseNote(match[1], options.octave ?? DEFAULT_OCTAVE);
+  const notes = buildChord(root, chordQuality(match[2]), options);
+  if (bass === undefined) return notes.map(format);
+
+  // Slash bass goes below everything else
+  let bassNote = parseNote(bass, notes[0].octave);
+  while (midiOf(bassNote) >= midiOf(notes[0])) bassNote = shiftOctave(bassNote, -1);
+  return [bassNote, ...notes].map(format);
+}
+
+const NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii'];
+
+// Chord quality of a numeral's suffix, given whether the numeral is upper case
+function numeralQuality(suffix: string, upper: boolean): Interval[] {
+  switch (suffix) {
+    case '': return chordQuality(upper ? '' : 'm');
+    case '7': return chordQuality(upper ? '7' : 'm7');
+    case '9': return chordQuality(upper ? '9' : 'm9');
+    case 'maj7': case 'M7': return chordQuality(upper ? 'maj7' : 'mMaj7');
+    default: return chordQuality(suffix);
+  }
+}
+
+// Roman numerals over a key: progression("i iv v", "C minor"). Case picks
+// major or minor, suffixes add quality (V7, vii°, iiø7) and b/# move the root
+// (bVII). Roots come from the key's own scale, so VII in C minor is Bb.
+export function progression(numerals: string, key: string, options: ChordOptions = {}): string[][] {
+  const { tonic, mode } = parseKey(key);
+  const degrees = scaleIntervals(mode);
+  if (degrees.length !== 7) throw new Error(`progression() needs a seven-note key, '${mode}' has ${degrees.length}`);
+  const root = parseNote(tonic, options.octave ?? DEFAULT_OCTAVE);
+
+  return numerals.trim().split(/[\s,|-]+/).filter(Boolean).map((token) => {
+    const match = /^([b#]?)(vii|iii|vi|iv|ii|v|i)(.*)$/i.exec(token);
+    if (!match) throw new Error(`Not a roman numeral: '${token}'`);
+    const [, alteration, numeral, suffix] = match;
+    const degree = NUMERALS.indexOf(numeral.toLowerCase());
+    const [semitones, steps] = degrees[degree];
+    const shift = alteration === 'b' ? -1 : alteration === '#' ? 1 : 0;
+    const chordRoot = transpose(root, [semitones + shift, steps]);
+    let quality: Interval[];
+    try {
+      quality = numeralQuality(suffix, numeral === numeral.toUpperCase());
+    } catch (err: any) {
+      throw new Error(`Numeral '${token}': ${err.message}`);
+    }
+    return buildChord(chordRoot, quality, options).map(format);
+  });
+}
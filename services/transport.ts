@@ -0,0 +1,180 @@
+import * as Tone from 'tone';
+import { TimeSignature, TransportSettings } from '../types';
+import { parseKey } from './theory';
+
+export const DEFAULT_TRANSPORT: TransportSettings = {
+  timeSignature: [4, 4],
+  swing: 0,
+  swingSubdivision: '8n',
+  key: 'C minor',
+};
+
+export const TIME_SIGNATURES: TimeSignature[] = [[4, 4], [3, 4], [5, 4], [7, 4], [6, 8], [7, 8], [12, 8]];
+
+// Tempo range of the BPM slider; ramps and tools stay inside it so the slider can follow
+export const MIN_BPM = 60;
+export const MAX_BPM = 200;
+
+export const clampBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+
+export const quartersPerBar = ([numerator, denominator]: TimeSignature) => (numerator * 4) / denominator;
+
+const isKey = (key: unknown): key is string => {
+  if (typeof key !== 'string') return false;
+  try {
+    parseKey(key);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Settings from untrusted input (stored projects, imports), defaults for anything off
+export function normalizeTransport(data: any): TransportSettings {
+  const signature = Array.isArray(data?.timeSignature) ? data.timeSignature : [];
+  const known = TIME_SIGNATURES.find(([n, d]) => n === signature[0] && d === signature[1]);
+  return {
+    timeSignature: known ? [known[0], known[1]] : DEFAULT_TRANSPORT.timeSignature,
+    swing: typeof data?.swing === 'number' ? Math.min(1, Math.max(0, data.swing)) : DEFAULT_TRANSPORT.swing,
+    swingSubdivision: data?.swingSubdivision === '16n' ? '16n' : '8n',
+    key: isKey(data?.key) ? data.key : DEFAULT_TRANSPORT.key,
+  };
+}
+
+export interface Position {
+  bar: number;
+  beat: number;
+  sixteenth: number;
+}
+
+// 1-based bar:beat:sixteenth, counting beats in the meter's own unit
+// (eighths in 6/8), unlike Tone's quarter-based position string
+export function positionAt(ticks: number, ppq: number, [numerator, denominator]: TimeSignature): Position {
+  const beatTicks = (ppq * 4) / denominator;
+  const barTicks = beatTicks * numerator;
+  const sixteenthTicks = ppq / 4;
+  return {
+    bar: Math.floor(ticks / barTicks) + 1,
+    beat: Math.floor((ticks % barTicks) / beatTicks) + 1,
+    sixteenth: Math.floor((ticks % beatTicks) / sixteenthTicks) + 1,
+  };
+}
+
+// Taps further apart than this start a new count
+const TAP_RESET_MS = 2000;
+const TAP_WINDOW = 5;
+
+// Tempo from tap times in ms, oldest first; null until there are two taps.
+// Returns the taps to keep for the next call too.
+export function tapTempo(taps: number[], now: number): { taps: number[]; bpm: number | null } {
+  const recent = taps.length > 0 && now - taps[taps.length - 1] > TAP_RESET_MS ? [] : taps;
+  const kept = [...recent, now].slice(-TAP_WINDOW);
+  if (kept.length < 2) return { taps: kept, bpm: null };
+  const average = (kept[kept.length - 1] - kept[0]) / (kept.length - 1);
+  return { taps: kept, bpm: clampBpm(Math.round(60000 / average)) };
+}
+
+// Throws on a ramp the slider could not show
+export function checkRamp(bpm: number, duration: Tone.Unit.Time) {
+  if (!Number.isFinite(bpm) || bpm < MIN_BPM || bpm > MAX_BPM) {
+    throw new RangeError(`rampBpm: tempo must be between ${MIN_BPM} and ${MAX_BPM}, got ${bpm}`);
+  }
+  if (!(Tone.Time(duration).toSeconds() > 0)) throw new RangeError(`rampBpm: invalid duration '${duration}'`);
+}
+
+// Tempo, meter and swing of one Transport, with change notifications for the
+// UI. Offline renders wrap their own context's Transport.
+export class TransportControl {
+  private settings: TransportSettings = DEFAULT_TRANSPORT;
+  private listeners: Set<() => void> = new Set();
+  private rampTimer: number | null = null;
+
+  // Tempo steps while a ramp runs, e.g. for MIDI tempo events
+  public onTempo?: (bpm: number) => void;
+
+  constructor(private transport: Tone.TransportInstance = Tone.getTransport()) {}
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // The tempo the Transport is running at right now, mid-ramp included
+  public get bpm(): number {
+    return this.transport.bpm.value;
+  }
+
+  public get current(): TransportSettings {
+    return this.settings;
+  }
+
+  // Jump to a tempo, cancelling any ramp in progress
+  public setBpm(bpm: number) {
+    this.stopWatching();
+    this.transport.bpm.value = bpm;
+    this.onTempo?.(bpm);
+    this.notify();
+  }
+
+  // Glide to a tempo over `duration`, starting at `time` (now by default)
+  public rampBpm(bpm: number, duration: Tone.Unit.Time, time?: number) {
+    checkRamp(bpm, duration);
+    const start = time ?? this.transport.now();
+    const seconds = Tone.Time(duration).toSeconds();
+
+    const param = this.transport.bpm;
+    param.cancelScheduledValues(start);
+    param.setRampPoint(start);
+    param.linearRampToValueAtTime(bpm, start + seconds);
+
+    // Only a Transport someone watches needs polling (the live one)
+    if (this.listeners.size > 0) this.watchRamp(start + seconds);
+  }
+
+  public apply(settings: TransportSettings) {
+    this.settings = settings;
+    this.transport.timeSignature = settings.timeSignature;
+    this.transport.swing = settings.swing;
+    this.transport.swingSubdivision = settings.swingSubdivision;
+    this.notify();
+  }
+
+  public position(): Position {
+    return positionAt(this.transport.ticks, this.transport.PPQ, this.settings.timeSignature);
+  }
+
+  // The delay Tone's Transport gives an event at this tick. Patterns place
+  // events inside a cycle themselves, so they add it on their own.
+  public swingDelay(ticks: number): number {
+    const { swing } = this.settings;
+    if (swing <= 0) return 0;
+    const tick = Math.round(ticks);
+    const pair = this.transport.toTicks(this.settings.swingSubdivision) * 2;
+    if (tick % this.transport.PPQ === 0 || tick % pair === 0) return 0;
+    const amount = Math.sin(((tick % pair) / pair) * Math.PI) * swing;
+    const secondsPerTick = 60 / (this.transport.bpm.value * this.transport.PPQ);
+    return (pair / 3) * secondsPerTick * amount;
+  }
+
+  // Report the tempo as it moves until the ramp is over
+  private watchRamp(end: number) {
+    this.stopWatching();
+    this.rampTimer = window.setInterval(() => {
+      const bpm = this.bpm;
+      this.onTempo?.(bpm);
+      this.notify();
+      if (this.transport.now() >= end) this.stopWatching();
+    }, 100);
+  }
+
+  private stopWatching() {
+    if (this.rampTimer !== null) {
+      window.clearInterval(this.rampTimer);
+      this.rampTimer = null;
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
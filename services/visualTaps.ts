@@ -0,0 +1,61 @@
+import * as Tone from 'tone';
+
+// Analysers hanging off the master output for the visualizer. They only
+// listen: nothing is connected onwards from them.
+export class VisualTaps {
+  private fft: Tone.Analyser;
+  private stereoScope: Tone.Analyser<2>;
+
+  constructor(private master: Tone.Analyser) {
+    this.fft = new Tone.Analyser("fft", 1024);
+    this.stereoScope = new Tone.Analyser({ type: "waveform", size: 1024, channels: 2 });
+    master.connect(this.fft);
+    master.connect(this.stereoScope);
+  }
+
+  // Mono waveform, -1..1
+  public waveform(): Float32Array {
+    return this.master.getValue();
+  }
+
+  // Magnitudes in dB, low to high
+  public spectrum(): Float32Array {
+    return this.fft.getValue();
+  }
+
+  // Left and right waveforms
+  public stereo(): [Float32Array, Float32Array] {
+    const [left, right] = this.stereoScope.getValue();
+    return [left, right];
+  }
+}
+
+export interface LoopFire {
+  // Transport tick the callback was scheduled for
+  tick: number;
+  // AudioContext time it sounds at
+  time: number;
+}
+
+// Fires kept per loop; enough to fill a bar of sixteenths twice over
+const FIRES_KEPT = 32;
+
+// When each named loop last fired, for the beat grid
+export class LoopActivity {
+  private fires: Map<string, LoopFire[]> = new Map();
+
+  public record(name: string, tick: number, time: number) {
+    const list = this.fires.get(name) ?? [];
+    list.push({ tick, time });
+    if (list.length > FIRES_KEPT) list.shift();
+    this.fires.set(name, list);
+  }
+
+  public recent(name: string): LoopFire[] {
+    return this.fires.get(name) ?? [];
+  }
+
+  public clear() {
+    this.fires.clear();
+  }
+}
@@ -0,0 +1,333 @@
+import { ChannelInfo, LoopInfo, TimeSignature, VisMode } from '../types';
+import { LoopFire } from './visualTaps';
+
+// Everything a visualizer may draw from, read fresh every frame. Sources
+// return empty data while the engine is offline.
+export interface VisualSources {
+  waveform(): Float32Array;
+  spectrum(): Float32Array;
+  stereo(): [Float32Array, Float32Array];
+  // Mixer strips with their meter readings, master last
+  channels(): ChannelInfo[];
+  loops(): LoopInfo[];
+  fires(name: string): LoopFire[];
+  // AudioContext time right now, to compare with fire times
+  now(): number;
+  // Transport position in ticks, and ticks per quarter note
+  ticks(): number;
+  ppq(): number;
+  timeSignature(): TimeSignature;
+}
+
+export interface View {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+}
+
+export interface Visualizer {
+  label: string;
+  draw(view: View, sources: VisualSources): void;
+  // Called when the visualizer is switched to, so it can drop stale state
+  reset?(view: View): void;
+}
+
+const GREEN = '#4ade80';
+const DIM = '#14532d';
+
+// Fade the previous frame instead of clearing it, for the phosphor trail
+function fade(view: View, alpha = 0.2) {
+  view.ctx.fillStyle = `rgba(5, 5, 5, ${alpha})`;
+  view.ctx.fillRect(0, 0, view.width, view.height);
+}
+
+function glow(ctx: CanvasRenderingContext2D, blur = 4) {
+  ctx.fillStyle = GREEN;
+  ctx.strokeStyle = GREEN;
+  ctx.shadowBlur = blur;
+  ctx.shadowColor = GREEN;
+}
+
+function flatLine({ ctx, width, height }: View) {
+  ctx.beginPath();
+  ctx.strokeStyle = DIM;
+  ctx.lineWidth = 1;
+  ctx.shadowBlur = 0;
+  ctx.moveTo(0, height / 2);
+  ctx.lineTo(width, height / 2);
+  ctx.stroke();
+}
+
+function label({ ctx, width }: View, text: string, x: number, y: number, align: CanvasTextAlign = 'left') {
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = 'rgba(74, 222, 128, 0.6)';
+  ctx.font = '9px monospace';
+  ctx.textAlign = align;
+  ctx.fillText(text, Math.min(x, width - 2), y);
+}
+
+// 0..1 for a dB reading between floor and 0
+const dbToUnit = (db: number, floor: number) => isFinite(db) ? Math.min(1, Math.max(0, (db - floor) / -floor)) : 0;
+
+const waveform: Visualizer = {
+  label: 'WAVEFORM',
+  draw(view, sources) {
+    fade(view);
+    const values = sources.waveform();
+    if (values.length === 0) return flatLine(view);
+    const { ctx, width, height } = view;
+    glow(ctx);
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    const sliceWidth = width / values.length;
+    for (let i = 0; i < values.length; i++) {
+      const y = (1 + values[i]) * (height / 2);
+      if (i === 0) ctx.moveTo(0, y);
+      else ctx.lineTo(i * sliceWidth, y);
+    }
+    ctx.stroke();
+  },
+};
+
+const fft: Visualizer = {
+  label: 'FFT',
+  draw(view, sources) {
+    fade(view);
+    const values = sources.spectrum();
+    if (values.length === 0) return flatLine(view);
+    const { ctx, width, height } = view;
+    glow(ctx);
+    const barWidth = (width / values.length) * 2.5;
+    let x = 0;
+    for (let i = 0; i < values.length; i++) {
+      const barHeight = Math.max(0, ((values[i] + 140) / 140) * height);
+      ctx.fillRect(x, height - barHeight, barWidth, barHeight);
+      x += barWidth + 1;
+      if (x > width) break;
+    }
+  },
+};
+
+// Pixels the spectrogram scrolls per frame
+const SPECTROGRAM_STEP = 2;
+
+const spectrogram: Visualizer = {
+  label: 'SPECTROGRAM',
+  reset({ ctx, width, height }) {
+    ctx.fillStyle = '#050505';
+    ctx.fillRect(0, 0, width, height);
+  },
+  draw(view, sources) {
+    const { ctx, width, height } = view;
+    const values = sources.spectrum();
+
+    // Scroll what is there left, in device pixels
+    const canvas = ctx.canvas;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    const step = SPECTROGRAM_STEP * (canvas.width / width);
+    ctx.drawImage(canvas, step, 0, canvas.width - step, canvas.height, 0, 0, canvas.width - step, canvas.height);
+    ctx.restore();
+
+    const x = width - SPECTROGRAM_STEP;
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = '#050505';
+    ctx.fillRect(x, 0, SPECTROGRAM_STEP, height);
+    if (values.length === 0) return;
+
+    // Log frequency axis: each row covers the bins between two exponents
+    const rows = Math.ceil(height / 2);
+    for (let row = 0; row < rows; row++) {
+      const from = Math.floor(Math.pow(values.length, row / rows));
+      const to = Math.max(from + 1, Math.floor(Math.pow(values.length, (row + 1) / rows)));
+      let peak = -Infinity;
+      for (let bin = from; bin < to && bin < values.length; bin++) peak = Math.max(peak, values[bin]);
+      const level = dbToUnit(peak, -100);
+      if (level <= 0) continue;
+      ctx.fillStyle = `rgba(74, 222, 128, ${level * level})`;
+      ctx.fillRect(x, height - (row + 1) * 2, SPECTROGRAM_STEP, 2);
+    }
+  },
+};
+
+// Goniometer (mid up, side across) with a correlation bar underneath
+const scope: Visualizer = {
+  label: 'SCOPE',
+  draw(view, sources) {
+    fade(view, 0.3);
+    const { ctx, width, height } = view;
+    const [left, right] = sources.stereo();
+    const size = Math.min(width, height - 16) / 2;
+    const cx = width / 2;
+    const cy = (height - 16) / 2;
+
+    ctx.shadowBlur = 0;
+    ctx.strokeStyle = DIM;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(cx - size, cy);
+    ctx.lineTo(cx + size, cy);
+    ctx.moveTo(cx, cy - size);
+    ctx.lineTo(cx, cy + size);
+    ctx.stroke();
+    if (left.length === 0) return;
+
+    glow(ctx, 2);
+    let sum = 0;
+    let leftPower = 0;
+    let rightPower = 0;
+    for (let i = 0; i < left.length; i++) {
+      const l = left[i];
+      const r = right[i];
+      sum += l * r;
+      leftPower += l * l;
+      rightPower += r * r;
+      const side = ((l - r) / Math.SQRT2) * size;
+      const mid = ((l + r) / Math.SQRT2) * size;
+      ctx.fillRect(cx + side, cy - mid, 1.5, 1.5);
+    }
+
+    // +1 mono, 0 wide, -1 out of phase
+    const power = Math.sqrt(leftPower * rightPower);
+    const correlation = power > 1e-9 ? sum / power : 0;
+    const barY = height - 10;
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = DIM;
+    ctx.fillRect(8, barY, width - 16, 4);
+    ctx.fillStyle = correlation < 0 ? '#f87171' : GREEN;
+    const half = (width - 16) / 2;
+    ctx.fillRect(8 + half, barY, correlation * half, 4);
+    label(view, `CORR ${correlation.toFixed(2)}`, width - 8, barY - 3, 'right');
+  },
+};
+
+// One bar per mixer strip
+const meters: Visualizer = {
+  label: 'METERS',
+  draw(view, sources) {
+    const { ctx, width, height } = view;
+    ctx.fillStyle = '#050505';
+    ctx.fillRect(0, 0, width, height);
+    const channels = sources.channels();
+    if (channels.length === 0) return flatLine(view);
+
+    const slot = width / channels.length;
+    const barWidth = Math.min(24, slot * 0.6);
+    const top = 8;
+    const bottom = height - 14;
+    channels.forEach((channel, i) => {
+      const x = i * slot + (slot - barWidth) / 2;
+      const level = dbToUnit(channel.level, -60);
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = DIM;
+      ctx.fillRect(x, top, barWidth, bottom - top);
+      glow(ctx, 6);
+      if (channel.level > -3) ctx.fillStyle = '#facc15';
+      ctx.fillRect(x, bottom - level * (bottom - top), barWidth, level * (bottom - top));
+      label(view, channel.name.slice(0, 8).toUpperCase(), i * slot + slot / 2, height - 3, 'center');
+    });
+  },
+};
+
+// How long a fired cell stays lit, in seconds
+const FLASH_DECAY = 0.4;
+
+// A row per loop across one bar of sixteenths; cells flash as loops fire
+// and fade out, with the playhead column marked
+const grid: Visualizer = {
+  label: 'LOOP_GRID',
+  draw(view, sources) {
+    const { ctx, width, height } = view;
+    ctx.fillStyle = '#050505';
+    ctx.fillRect(0, 0, width, height);
+    const loops = sources.loops();
+    if (loops.length === 0) return flatLine(view);
+
+    const [numerator, denominator] = sources.timeSignature();
+    const ppq = sources.ppq();
+    const sixteenth = ppq / 4;
+    const barTicks = (ppq * 4 * numerator) / denominator;
+    const columns = Math.round(barTicks / sixteenth);
+    const beatColumns = 16 / denominator;
+    const now = sources.now();
+
+    const nameWidth = Math.min(80, width * 0.25);
+    const cellWidth = (width - nameWidth) / columns;
+    const rowHeight = Math.min(20, height / loops.length);
+    const ticks = sources.ticks();
+    const playhead = Math.floor((ticks % barTicks) / sixteenth);
+
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = 'rgba(74, 222, 128, 0.08)';
+    ctx.fillRect(nameWidth + playhead * cellWidth, 0, cellWidth, rowHeight * loops.length);
+
+    loops.forEach((loop, row) => {
+      const y = row * rowHeight;
+      label(view, loop.name.slice(0, 12), 4, y + rowHeight / 2 + 3);
+      for (let column = 0; column < columns; column++) {
+        ctx.shadowBlur = 0;
+        ctx.fillStyle = column % beatColumns === 0 ? 'rgba(20, 83, 45, 0.6)' : 'rgba(20, 83, 45, 0.3)';
+        ctx.fillRect(nameWidth + column * cellWidth + 1, y + 2, cellWidth - 2, rowHeight - 4);
+      }
+      if (!loop.audible) return;
+
+      // Fires from the last bar, brightest when they just sounded
+      sources.fires(loop.name).forEach((fire) => {
+        const age = now - fire.time;
+        if (age < 0 || ticks - fire.tick >= barTicks) return;
+        const column = Math.floor((fire.tick % barTicks) / sixteenth);
+        const flash = Math.max(0, 1 - age / FLASH_DECAY);
+        ctx.fillStyle = loop.state === 'error' ? `rgba(248, 113, 113, ${0.3 + 0.7 * flash})` : `rgba(74, 222, 128, ${0.25 + 0.75 * flash})`;
+        ctx.shadowColor = GREEN;
+        ctx.shadowBlur = 8 * flash;
+        ctx.fillRect(nameWidth + column * cellWidth + 1, y + 2, cellWidth - 2, rowHeight - 4);
+      });
+    });
+  },
+};
+
+// Modes in the order a click on the canvas cycles through them. Swap an
+// entry or add one (and its VisMode) to change what the canvas can show.
+export const VISUALIZERS: Record<VisMode, Visualizer> = { waveform, fft, spectrogram, scope, meters, grid };
+
+export const VIS_MODES = Object.keys(VISUALIZERS) as VisMode[];
+
+export const isVisMode = (mode: unknown): mode is VisMode => typeof mode === 'string' && Object.hasOwn(VISUALIZERS, mode);
+
+export const nextVisMode = (mode: VisMode) => VIS_MODES[(VIS_MODES.indexOf(mode) + 1) % VIS_MODES.length];
+
+// Run a visualizer on a canvas every frame, keeping the canvas at device
+// resolution. Returns a function that stops it.
+export function startVisualizer(canvas: HTMLCanvasElement, visualizer: Visualizer, sources: VisualSources): () => void {
+  let frame: number;
+  let first = true;
+
+  const render = () => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    // Canvas sizes are whole pixels; comparing with the fractional product
+    // would resize, and wipe the picture, on every frame
+    const width = Math.round(rect.width * dpr);
+    const height = Math.round(rect.height * dpr);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      ctx.scale(dpr, dpr);
+      first = true;
+    }
+
+    const view: View = { ctx, width: rect.width, height: rect.height };
+    if (first) {
+      visualizer.reset?.(view);
+      first = false;
+    }
+    visualizer.draw(view, sources);
+    frame = requestAnimationFrame(render);
+  };
+
+  render();
+  return () => cancelAnimationFrame(frame);
+}
@@ -1,11 +1,172 @@
+// 1-based position in a project buffer
+export interface SourceLocation {
+  // Buffer name, e.g. "main.js"
+  file?: string;
+  line: number;
+  column: number;
+}
+
+export type LogLevel = 'debug' | 'info' | 'success' | 'warn' | 'error' | 'system';
+
 export interface LogEntry {
   id: string;
+  // Epoch ms, and the same as shown in the log
+  time: number;
   timestamp: string;
   message: string;
-  type: 'info' | 'success' | 'error' | 'system';
+  type: LogLevel;
+  location?: SourceLocation;
+  // Loop or buffer the message came from, for sketch output
+  source?: string;
+  // How many times this message repeated in a row
+  count?: number;
 }
 
 export interface AudioState {
   isPlaying: boolean;
   bpm: number;
 }
+
+export interface LoopInfo {
+  name: string;
+  interval: string;
+  state: 'pending' | 'playing' | 'error' | 'disabled';
+  muted: boolean;
+  soloed: boolean;
+  // False when muted, or when another loop is soloed
+  audible: boolean;
+  lastError?: string;
+}
+
+export interface ChannelInfo {
+  name: string;
+  volume: number;
+  pan: number;
+  mute: boolean;
+  solo: boolean;
+  // Master and FX returns: never soloed, and never silenced by a solo
+  soloSafe: boolean;
+  // Meter reading in dB
+  level: number;
+}
+
+export interface Take {
+  id: string;
+  name: string;
+  // Object URL for auditioning and downloading
+  url: string;
+  mimeType: string;
+  // Seconds
+  duration: number;
+  timestamp: string;
+  size: number;
+}
+
+export interface SampleInfo {
+  name: string;
+  // Seconds
+  duration: number;
+  size: number;
+}
+
+// A live control declared by a sketch with knob(), toggle() or xy()
+export type ControlInfo =
+  | { kind: 'knob'; name: string; min: number; max: number; step?: number; curve: 'linear' | 'exp'; default: number; value: number }
+  | { kind: 'toggle'; name: string; default: boolean; value: boolean }
+  | { kind: 'xy'; name: string; x: [number, number]; y: [number, number]; default: [number, number]; value: [number, number] };
+
+// Tone.js voice classes instrument() can build
+export type InstrumentType = 'synth' | 'mono' | 'am' | 'fm' | 'duo' | 'membrane' | 'metal' | 'noise' | 'pluck' | 'poly';
+
+// One voice the engine manages, built-in or declared by a sketch
+export interface InstrumentInfo {
+  name: string;
+  type: InstrumentType;
+  builtIn: boolean;
+}
+
+// Saved settings for one instrument type
+export interface InstrumentPreset {
+  name: string;
+  type: InstrumentType;
+  // Tone.js options, as returned by node.get()
+  options: Record<string, any>;
+  // Built-in voice this preset replaces whenever a rig is built
+  defaultFor?: string;
+  updatedAt: number;
+}
+
+// A named buffer in a project
+export interface ProjectFile {
+  name: string;
+  content: string;
+}
+
+// Numerator and denominator, e.g. [6, 8]
+export type TimeSignature = [number, number];
+
+export interface TransportSettings {
+  timeSignature: TimeSignature;
+  // 0 is straight, 1 pushes every other subdivision to a full triplet
+  swing: number;
+  swingSubdivision: '8n' | '16n';
+  // Key the theory helpers default to, e.g. "C minor"
+  key: string;
+}
+
+// What the visualizer canvas shows
+export type VisMode = 'waveform' | 'fft' | 'spectrogram' | 'scope' | 'meters' | 'grid';
+
+export interface Project {
+  id: string;
+  name: string;
+  files: ProjectFile[];
+  activeFile: string;
+  bpm: number;
+  transport: TransportSettings;
+  visMode: VisMode;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One execution of a buffer, kept so a set can step back to it
+export interface Snapshot {
+  id: string;
+  timestamp: string;
+  code: string;
+  file: string;
+  bpm: number;
+  success: boolean;
+  error?: string;
+  // Who pressed run: the user or GHOST_IN_SHELL
+  source: 'human' | 'ghost';
+}
+
+// Code GHOST_IN_SHELL wants to run, held until the user decides (review mode)
+export interface ChangeProposal {
+  id: string;
+  // Tool that proposed it, e.g. 'apply_patch'
+  tool: string;
+  file: string;
+  before: string;
+  after: string;
+}
+
+export type ReviewDecision =
+  | { kind: 'accept'; code: string; edited: boolean }
+  | { kind: 'reject'; reason: string };
+
+// One entry in the GHOST_TERMINAL conversation
+export interface ChatMessage {
+  role: 'user' | 'model' | 'system' | 'tool';
+  text: string;
+  // Tool steps: the call as sent and, once it finished, what it returned
+  tool?: { id: string; name: string; args: Record<string, any>; result?: string };
+}
+
+// A project's GHOST_TERMINAL conversation, kept across reloads
+export interface Conversation {
+  projectId: string;
+  messages: ChatMessage[];
+  updatedAt: number;
+}